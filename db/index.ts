@@ -1,16 +1,18 @@
 import { drizzle } from "drizzle-orm/better-sqlite3";
 import Database from "better-sqlite3";
-import { projects } from "./schema.js";
-import { eq } from "drizzle-orm";
+import { projects, jobs, type Job, type NewJob } from "./schema.js";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
 import { mkdirSync } from "fs";
 
 // データディレクトリ
 export const DATA_DIR = "./data";
 export const PROJECTS_DIR = `${DATA_DIR}/projects`;
+export const JOBS_DIR = `${DATA_DIR}/jobs`;
 
 // ディレクトリ作成
 mkdirSync(DATA_DIR, { recursive: true });
 mkdirSync(PROJECTS_DIR, { recursive: true });
+mkdirSync(JOBS_DIR, { recursive: true });
 
 // DB接続
 const sqlite = new Database(`${DATA_DIR}/video-to-post.db`);
@@ -38,6 +40,48 @@ sqlite.exec(`
   )
 `);
 
+sqlite.exec(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    step TEXT NOT NULL,
+    options TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    error_message TEXT,
+    created_at INTEGER NOT NULL,
+    started_at INTEGER,
+    finished_at INTEGER
+  )
+`);
+
+// 既存DBへのカラム追加
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+addColumnIfMissing("projects", "text_provider", "TEXT");
+addColumnIfMissing("projects", "text_model", "TEXT");
+addColumnIfMissing("projects", "image_backend", "TEXT");
+addColumnIfMissing("projects", "markdown_path", "TEXT");
+addColumnIfMissing("projects", "theme", "TEXT");
+addColumnIfMissing("projects", "section_count", "INTEGER");
+addColumnIfMissing("projects", "section_words", "INTEGER");
+addColumnIfMissing("projects", "total_words", "INTEGER");
+addColumnIfMissing("projects", "transcription_language", "TEXT");
+addColumnIfMissing("projects", "article_language", "TEXT");
+addColumnIfMissing("projects", "detected_language", "TEXT");
+addColumnIfMissing("projects", "transcription_backend", "TEXT");
+addColumnIfMissing("projects", "transcription_model", "TEXT");
+addColumnIfMissing("projects", "transcript_source", "TEXT");
+addColumnIfMissing("projects", "generate_stale", "INTEGER NOT NULL DEFAULT 0");
+addColumnIfMissing("projects", "content_path", "TEXT");
+addColumnIfMissing("projects", "video_embed", "TEXT");
+addColumnIfMissing("projects", "video_url", "TEXT");
+addColumnIfMissing("projects", "social_path", "TEXT");
+
 // プロジェクトのパスを取得
 export function getProjectDir(projectId: string): string {
   return `${PROJECTS_DIR}/${projectId}`;
@@ -72,3 +116,67 @@ export async function updateProject(
 export async function deleteProject(id: string) {
   await db.delete(projects).where(eq(projects.id, id));
 }
+
+// ===== ジョブ =====
+
+// ジョブの出力ログ（JSON Lines）
+export function getJobLogPath(jobId: string): string {
+  return `${JOBS_DIR}/${jobId}.log`;
+}
+
+export async function getJob(id: string) {
+  const result = await db.select().from(jobs).where(eq(jobs.id, id));
+  return result[0] || null;
+}
+
+export async function getProjectJobs(projectId: string) {
+  return db.select().from(jobs).where(eq(jobs.projectId, projectId)).orderBy(desc(jobs.createdAt));
+}
+
+// 待機中・実行中のジョブ
+export async function getActiveJobs() {
+  return db.select().from(jobs).where(inArray(jobs.status, ["queued", "running"]));
+}
+
+export async function getActiveJob(projectId: string) {
+  const result = await db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.projectId, projectId), inArray(jobs.status, ["queued", "running"])));
+  return result[0] || null;
+}
+
+// 最も古い待機中ジョブ
+export async function getNextQueuedJob() {
+  const result = await db
+    .select()
+    .from(jobs)
+    .where(eq(jobs.status, "queued"))
+    // created_at は秒単位なので、同じ秒に追加したジョブは追加順（rowid）で並べる
+    .orderBy(asc(jobs.createdAt), asc(sql`rowid`))
+    .limit(1);
+  return result[0] || null;
+}
+
+export async function getJobsByStatus(status: Job["status"]) {
+  return db.select().from(jobs).where(eq(jobs.status, status));
+}
+
+export async function createJob(job: NewJob) {
+  await db.insert(jobs).values(job);
+  return getJob(job.id);
+}
+
+export async function updateJob(id: string, data: Partial<NewJob>) {
+  await db.update(jobs).set(data).where(eq(jobs.id, id));
+  return getJob(id);
+}
+
+// 状態が status のときだけ更新する（取り出しとキャンセルが競合しても片方だけが成功する）
+export async function updateJobIfStatus(id: string, status: Job["status"], data: Partial<NewJob>) {
+  const result = await db
+    .update(jobs)
+    .set(data)
+    .where(and(eq(jobs.id, id), eq(jobs.status, status)));
+  return result.changes > 0;
+}
@@ -12,6 +12,9 @@ export const projects = sqliteTable("projects", {
   wavPath: text("wav_path"), // video.wav
   vttPath: text("vtt_path"), // video.vtt
   htmlPath: text("html_path"), // video.html
+  markdownPath: text("markdown_path"), // video.md
+  contentPath: text("content_path"), // content.json（生成結果。再描画に使う）
+  socialPath: text("social_path"), // social.json（SNS向けの投稿）
   framesDir: text("frames_dir"), // frames/
   outputDir: text("output_dir"), // output/
 
@@ -20,12 +23,33 @@ export const projects = sqliteTable("projects", {
 
   // 処理状態
   status: text("status", {
-    enum: ["pending", "transcribing", "extracting", "generating", "completed", "error"],
+    enum: ["pending", "transcribing", "extracting", "generating", "rendering", "completed", "error", "cancelled"],
   })
     .notNull()
     .default("pending"),
   errorMessage: text("error_message"),
 
+  // 生成設定（未設定なら環境変数・既定値を使用）
+  textProvider: text("text_provider", { enum: ["gemini", "openai", "local"] }),
+  textModel: text("text_model"),
+  imageBackend: text("image_backend", { enum: ["gemini", "openai", "enhance"] }),
+  theme: text("theme"), // themes/ 内のディレクトリ名
+  transcriptionBackend: text("transcription_backend", { enum: ["whisper-cpp", "faster-whisper", "openai"] }),
+  transcriptionModel: text("transcription_model"), // モデルサイズ（small 等）またはモデル名
+  // 言語（nullは自動。記事の言語の自動は文字起こしの言語）
+  transcriptionLanguage: text("transcription_language"),
+  articleLanguage: text("article_language"),
+  detectedLanguage: text("detected_language"), // 文字起こしで判定した言語
+  // 文字起こしの出どころ（transcribe: 文字起こし, captions: 既存の字幕を取り込み）
+  transcriptSource: text("transcript_source", { enum: ["transcribe", "captions"] }),
+  // 記事に埋め込む動画（file: プロジェクトの動画ファイル, url: videoUrl の YouTube / Vimeo, null: 埋め込まない）
+  videoEmbed: text("video_embed", { enum: ["file", "url"] }),
+  videoUrl: text("video_url"),
+  // 記事の構成（nullは動画長・文字起こし量から自動決定）
+  sectionCount: integer("section_count"),
+  sectionWords: integer("section_words"), // セクションあたりの語数
+  totalWords: integer("total_words"),
+
   // 各ステップの完了状態
   transcribeCompleted: integer("transcribe_completed", { mode: "boolean" })
     .notNull()
@@ -36,7 +60,29 @@ export const projects = sqliteTable("projects", {
   generateCompleted: integer("generate_completed", { mode: "boolean" })
     .notNull()
     .default(false),
+  // 生成後に文字起こしが変わった（HTMLの再生成が必要）
+  generateStale: integer("generate_stale", { mode: "boolean" })
+    .notNull()
+    .default(false),
+});
+
+// ジョブテーブル（パイプラインステップの実行キュー）
+export const jobs = sqliteTable("jobs", {
+  id: text("id").primaryKey(), // UUID
+  projectId: text("project_id").notNull(),
+  step: text("step", { enum: ["transcribe", "extract", "generate", "render", "social", "all", "section-text", "section-image"] }).notNull(),
+  // 実行時オプション（プロジェクト設定を上書き）
+  options: text("options", { mode: "json" }).$type<Record<string, string>>(),
+  status: text("status", { enum: ["queued", "running", "completed", "failed", "cancelled"] })
+    .notNull()
+    .default("queued"),
+  errorMessage: text("error_message"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
 });
 
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
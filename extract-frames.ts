@@ -1,104 +1,301 @@
 #!/usr/bin/env npx tsx
 /**
  * MP4動画からフレーム画像を抽出するスクリプト
- * ファイル名に時刻を含める（例: frame_01_30_00.jpg = 1時間30分0秒）
+ * ファイル名に時刻を含める（例: frame_01_30_00_250.jpg = 1時間30分0.25秒）
+ * 正確な表示時刻と画像指標は frames.json（マニフェスト）に書き出す
+ *
+ * 抽出モード:
+ * - interval: 一定間隔で指定枚数を抽出
+ * - scene:    ffmpegのシーンスコアで画面が切り替わったフレームを抽出（スライド・画面収録向け）
+ * - hybrid:   interval + scene
+ *
+ * 抽出後、知覚ハッシュ（dHash）で時間的に連続するほぼ同一のフレームをまとめ、最もシャープな1枚だけを残す
  */
 
-import { spawn } from "child_process";
-import { existsSync, mkdirSync, readdirSync, renameSync } from "fs";
-import { basename, dirname, join } from "path";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { parseArgs } from "util";
+import { getVideoDuration, runCommand } from "./lib/command.js";
+import { createProgressReporter, parseFfmpegProgressTime } from "./lib/progress.js";
+import {
+  analyzeFrame,
+  dedupeFrames,
+  isExtractMode,
+  validateSceneDetectionSettings,
+  writeManifest,
+  DEFAULT_DEDUP_THRESHOLD,
+  DEFAULT_MAX_FRAMES,
+  DEFAULT_MIN_FRAMES,
+  DEFAULT_SCENE_THRESHOLD,
+  EXTRACT_MODES,
+  MANIFEST_FILE,
+  type ExtractMode,
+  type FrameInfo,
+  type SceneDetectionSettings,
+} from "./lib/frames.js";
 
-function runCommand(cmd: string, args: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn(cmd, args, { stdio: "inherit" });
-    proc.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`${cmd} exited with code ${code}`));
-    });
-    proc.on("error", reject);
-  });
+interface ExtractOptions extends SceneDetectionSettings {
+  mode: ExtractMode;
+  targetFrames: number; // interval / hybrid の間隔抽出枚数
+  dedupThreshold: number; // 重複とみなすハミング距離（0で無効）
 }
 
-async function getVideoDuration(videoPath: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn("ffprobe", [
-      "-v", "error",
-      "-show_entries", "format=duration",
-      "-of", "default=noprint_wrappers=1:nokey=1",
-      videoPath,
-    ]);
-
-    let output = "";
-    proc.stdout.on("data", (data) => (output += data));
-    proc.on("close", (code) => {
-      if (code === 0) resolve(parseFloat(output.trim()));
-      else reject(new Error("ffprobe failed"));
-    });
-    proc.on("error", reject);
-  });
+// 抽出されたフレーム（リネーム前）
+interface ExtractedFrame {
+  path: string;
+  time: number; // 表示時刻（秒）
+  score: number; // シーンスコア（間隔抽出は0）
 }
 
+type Reporter = ReturnType<typeof createProgressReporter>;
+
 function secondsToTimecode(seconds: number): string {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  return `${h.toString().padStart(2, "0")}_${m.toString().padStart(2, "0")}_${s.toString().padStart(2, "0")}`;
+  const totalMs = Math.round(seconds * 1000);
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${h.toString().padStart(2, "0")}_${m.toString().padStart(2, "0")}_${s.toString().padStart(2, "0")}_${ms.toString().padStart(3, "0")}`;
+}
+
+// ffmpegでフレームを書き出す（進捗付き）
+// 各フレームの表示時刻は showinfo の出力（書き出したフレームごとに1行）から、
+// シーンスコアはメタデータ（select がスコアを付けたフレームだけ出力される）から読み取る
+async function runFfmpegFrames(
+  videoPath: string,
+  outputDir: string,
+  prefix: string,
+  filter: string,
+  duration: number,
+  onProgress: (fraction: number) => void
+): Promise<ExtractedFrame[]> {
+  // フィルターグラフでは ":" "," "'" "\" 等が特別な意味を持つので、メタデータは出力先を
+  // 作業ディレクトリにして固定の相対パスに書き出す（プロジェクトのパスをフィルターに埋め込まない）
+  const metadataFile = `${prefix}metadata.txt`;
+  const metadataPath = join(outputDir, metadataFile);
+  const entries: { pts: number; time: number }[] = [];
+
+  await runCommand(
+    "ffmpeg",
+    [
+      "-i", resolve(videoPath),
+      "-vf", `${filter},metadata=print:file=${metadataFile},showinfo`,
+      "-fps_mode", "vfr",
+      "-q:v", "2",
+      "-progress", "pipe:1",
+      "-nostats",
+      "-y",
+      `${prefix}%04d.jpg`,
+    ],
+    {
+      cwd: outputDir,
+      onStdoutLine: (line) => {
+        const time = parseFfmpegProgressTime(line);
+        if (time !== null) onProgress(time / duration);
+      },
+      // [Parsed_showinfo_2 @ 0x...] n:   0 pts:      0 pts_time:0       ...
+      onStderrLine: (line) => {
+        const match = line.match(/\] n:\s*\d+\s+pts:\s*(-?\d+)\s+pts_time:\s*(-?[\d.e+-]+)/);
+        if (match) entries.push({ pts: parseInt(match[1], 10), time: parseFloat(match[2]) });
+        else console.error(line);
+      },
+    }
+  );
+
+  // frame:0    pts:0       pts_time:0
+  // lavfi.scene_score=0.000000
+  const scores = new Map<number, number>();
+  let pts: number | null = null;
+  const metadata = existsSync(metadataPath) ? readFileSync(metadataPath, "utf-8") : "";
+  for (const line of metadata.split("\n")) {
+    const ptsMatch = line.match(/pts:(-?\d+)/);
+    if (ptsMatch) {
+      pts = parseInt(ptsMatch[1], 10);
+      continue;
+    }
+    const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+    if (scoreMatch && pts !== null) scores.set(pts, parseFloat(scoreMatch[1]));
+  }
+  rmSync(metadataPath, { force: true });
+
+  const files = listTempFiles(outputDir, prefix);
+  if (files.length !== entries.length) {
+    throw new Error(`抽出結果が一致しません（画像${files.length}枚 / フレーム情報${entries.length}件）`);
+  }
+  return files.map((path, i) => ({ path, time: entries[i].time, score: scores.get(entries[i].pts) ?? 0 }));
+}
+
+function listTempFiles(outputDir: string, prefix: string): string[] {
+  return readdirSync(outputDir)
+    .filter((f) => f.startsWith(prefix) && f.endsWith(".jpg"))
+    .sort()
+    .map((f) => join(outputDir, f));
+}
+
+// 一定間隔で抽出
+async function extractIntervalFrames(
+  videoPath: string,
+  outputDir: string,
+  duration: number,
+  targetFrames: number,
+  report: Reporter
+): Promise<ExtractedFrame[]> {
+  // フレームレート計算（targetFrames枚になるように）
+  const fps = targetFrames / duration;
+  console.log(`抽出レート: ${fps.toFixed(3)} fps (目標${targetFrames}枚)`);
+
+  report("interval", 0, "フレーム抽出");
+  return runFfmpegFrames(videoPath, outputDir, "temp_i_", `fps=${fps}`, duration, (f) =>
+    report("interval", f, "フレーム抽出")
+  );
+}
+
+// シーン切り替えで抽出（先頭フレームは常に含める）
+async function extractSceneFrames(
+  videoPath: string,
+  outputDir: string,
+  duration: number,
+  threshold: number,
+  report: Reporter
+): Promise<ExtractedFrame[]> {
+  console.log(`シーン検出: 閾値 ${threshold}`);
+
+  report("scene", 0, "シーン検出");
+  const frames = await runFfmpegFrames(
+    videoPath,
+    outputDir,
+    "temp_s_",
+    `select='eq(n\\,0)+gt(scene\\,${threshold})'`,
+    duration,
+    (f) => report("scene", f, "シーン検出")
+  );
+  console.log(`シーン検出: ${frames.length}枚`);
+  return frames;
+}
+
+// シーンフレームを優先して結合（近すぎる間隔フレームは除く）
+function mergeFrames(scene: ExtractedFrame[], interval: ExtractedFrame[], minGap: number): ExtractedFrame[] {
+  const fill = interval.filter((f) => scene.every((s) => Math.abs(s.time - f.time) >= minGap));
+  return [...scene, ...fill].sort((a, b) => a.time - b.time);
+}
+
+// 上限を超えた分はシーンスコアの低い順に除く（先頭フレームは残す）
+function applyMaxFrames(frames: ExtractedFrame[], maxFrames: number): ExtractedFrame[] {
+  if (frames.length <= maxFrames) return frames;
+  const [first, ...rest] = frames;
+  const kept = new Set([first, ...[...rest].sort((a, b) => b.score - a.score).slice(0, maxFrames - 1)]);
+  return frames.filter((f) => kept.has(f));
 }
 
 async function extractFrames(
   videoPath: string,
   outputDir: string,
-  targetFrames: number = 100
+  options: ExtractOptions
 ): Promise<string[]> {
-  console.log(`フレーム抽出中: ${videoPath}`);
+  console.log(`フレーム抽出中: ${videoPath} (モード: ${options.mode})`);
 
-  // 出力ディレクトリ作成
+  // 出力ディレクトリ作成（前回の抽出結果は削除）
   mkdirSync(outputDir, { recursive: true });
+  for (const f of readdirSync(outputDir)) {
+    if (f.startsWith("frame_") || f.startsWith("temp_") || f === MANIFEST_FILE) {
+      rmSync(join(outputDir, f));
+    }
+  }
 
   // 動画の長さを取得
   const duration = await getVideoDuration(videoPath);
   console.log(`動画長: ${Math.floor(duration)}秒`);
 
-  // フレームレート計算（targetFrames枚になるように）
-  const fps = targetFrames / duration;
-  const interval = duration / targetFrames;
-  console.log(`抽出レート: ${fps.toFixed(3)} fps (目標${targetFrames}枚)`);
+  const report = createProgressReporter(
+    options.mode === "interval"
+      ? { interval: 15, analyze: 5 }
+      : options.mode === "scene"
+        ? { scene: 15, interval: 4, analyze: 5 }
+        : { scene: 8, interval: 7, analyze: 5 }
+  );
+
+  let frames: ExtractedFrame[];
+  if (options.mode === "interval") {
+    frames = await extractIntervalFrames(videoPath, outputDir, duration, options.targetFrames, report);
+  } else {
+    const scene = await extractSceneFrames(videoPath, outputDir, duration, options.sceneThreshold, report);
+
+    // hybrid: 常に間隔抽出と結合 / scene: 下限に満たない場合のみ間隔抽出で補う
+    const intervalCount =
+      options.mode === "hybrid" ? options.targetFrames : scene.length < options.minFrames ? options.minFrames : 0;
+    if (options.mode === "scene" && intervalCount > 0) {
+      console.log(`シーン数が下限(${options.minFrames})未満のため、一定間隔のフレームで補完します`);
+    }
+
+    const interval =
+      intervalCount > 0
+        ? await extractIntervalFrames(videoPath, outputDir, duration, intervalCount, report)
+        : [];
+    frames = mergeFrames(scene, interval, duration / Math.max(intervalCount, 1) / 2);
+  }
+
+  const kept = options.mode === "interval" ? frames : applyMaxFrames(frames, options.maxFrames);
+  if (kept.length < frames.length) {
+    console.log(`上限(${options.maxFrames}枚)を超えたため ${frames.length - kept.length}枚を除外`);
+  }
 
-  // ffmpegでフレーム抽出（一時的に連番で）
-  const tempPattern = join(outputDir, "temp_%04d.jpg");
-  await runCommand("ffmpeg", [
-    "-i", videoPath,
-    "-vf", `fps=${fps}`,
-    "-q:v", "2",
-    "-y",
-    tempPattern,
-  ]);
-
-  // ファイル名を時刻付きにリネーム
-  const tempFiles = readdirSync(outputDir)
-    .filter((f) => f.startsWith("temp_") && f.endsWith(".jpg"))
-    .sort();
-
-  const files: string[] = [];
-  for (let i = 0; i < tempFiles.length; i++) {
-    const seconds = i * interval;
-    const timecode = secondsToTimecode(seconds);
-    const oldPath = join(outputDir, tempFiles[i]);
-    const newPath = join(outputDir, `frame_${timecode}.jpg`);
-    renameSync(oldPath, newPath);
-    files.push(newPath);
+  // 採用したフレームを時刻付きにリネームし、画像指標を計算
+  const manifestFrames: FrameInfo[] = [];
+  for (let i = 0; i < kept.length; i++) {
+    const file = `frame_${secondsToTimecode(kept[i].time)}.jpg`;
+    const newPath = join(outputDir, file);
+    renameSync(kept[i].path, newPath);
+    manifestFrames.push({
+      file,
+      timestampMs: Math.round(kept[i].time * 1000),
+      ...(options.mode !== "interval" && { sceneScore: kept[i].score }),
+      ...(await analyzeFrame(newPath)),
+    });
+    report("analyze", (i + 1) / kept.length, "画像分析");
+  }
+  // 採用しなかった一時ファイルは削除
+  listTempFiles(outputDir, "temp_").forEach((path) => rmSync(path));
+
+  // ほぼ同一のフレームの連続をまとめる
+  const { kept: uniqueFrames, removed } = dedupeFrames(manifestFrames, options.dedupThreshold);
+  removed.forEach((f) => rmSync(join(outputDir, f.file)));
+  if (removed.length > 0) {
+    console.log(`重複除去: ${removed.length}枚を除外（距離${options.dedupThreshold}以下）`);
   }
 
-  console.log(`抽出完了: ${files.length}枚`);
-  return files;
+  writeManifest(outputDir, {
+    version: 1,
+    videoDuration: duration,
+    frames: uniqueFrames,
+    dedupThreshold: options.dedupThreshold,
+  });
+
+  console.log(`抽出完了: ${uniqueFrames.length}枚`);
+  return uniqueFrames.map((f) => join(outputDir, f.file));
 }
 
 async function main(): Promise<void> {
-  const videoPath = process.argv[2];
-  const targetFrames = parseInt(process.argv[3] || "100", 10);
+  const { values, positionals } = parseArgs({
+    options: {
+      mode: { type: "string", default: "interval" },
+      "scene-threshold": { type: "string", default: String(DEFAULT_SCENE_THRESHOLD) },
+      "min-frames": { type: "string", default: String(DEFAULT_MIN_FRAMES) },
+      "max-frames": { type: "string", default: String(DEFAULT_MAX_FRAMES) },
+      "dedup-threshold": { type: "string", default: String(DEFAULT_DEDUP_THRESHOLD) },
+    },
+    allowPositionals: true,
+  });
+  const videoPath = positionals[0];
+  const targetFrames = parseInt(positionals[1] || "100", 10);
 
   if (!videoPath) {
-    console.log("使い方: npx tsx extract-frames.ts <video.mp4> [枚数=100]");
+    console.log("使い方: npx tsx extract-frames.ts <video.mp4> [枚数=100] [オプション]");
+    console.log("\nオプション:");
+    console.log(`  --mode <${EXTRACT_MODES.join("|")}>  抽出モード（既定: interval）`);
+    console.log(`  --scene-threshold <0-1>  シーン切り替えとみなすスコア（既定: ${DEFAULT_SCENE_THRESHOLD}）`);
+    console.log(`  --min-frames <n>         scene/hybridの最小枚数（既定: ${DEFAULT_MIN_FRAMES}）`);
+    console.log(`  --max-frames <n>         scene/hybridの最大枚数（既定: ${DEFAULT_MAX_FRAMES}）`);
+    console.log(`  --dedup-threshold <0-64> ほぼ同一とみなすハッシュ距離、0で無効（既定: ${DEFAULT_DEDUP_THRESHOLD}）`);
     process.exit(1);
   }
 
@@ -107,11 +304,34 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (!isExtractMode(values.mode!)) {
+    console.error(`エラー: 不明な抽出モード: ${values.mode}`);
+    process.exit(1);
+  }
+
+  const options: ExtractOptions = {
+    mode: values.mode,
+    targetFrames,
+    sceneThreshold: parseFloat(values["scene-threshold"]!),
+    minFrames: parseInt(values["min-frames"]!, 10),
+    maxFrames: parseInt(values["max-frames"]!, 10),
+    dedupThreshold: parseInt(values["dedup-threshold"]!, 10),
+  };
+  const settingsError = validateSceneDetectionSettings(options);
+  if (settingsError) {
+    console.error(`エラー: ${settingsError}`);
+    process.exit(1);
+  }
+  if (!(options.dedupThreshold >= 0 && options.dedupThreshold <= 64)) {
+    console.error("エラー: --dedup-threshold は0〜64を指定してください");
+    process.exit(1);
+  }
+
   const dir = dirname(videoPath) || ".";
   // 同じディレクトリのframes/に出力
   const outputDir = join(dir, "frames");
 
-  const files = await extractFrames(videoPath, outputDir, targetFrames);
+  const files = await extractFrames(videoPath, outputDir, options);
 
   console.log(`\n完了！`);
   console.log(`出力先: ${outputDir}`);
@@ -2,101 +2,113 @@
 /**
  * VTT文字起こしと画像からHTMLブログポストを生成
  * 1. VTT解析 → セクション分割（時刻付き）
+ *    長い文字起こしは時間で区切った区間ごとに要約し、要約から記事を組み立てる
  * 2. 各セクションの時刻に近い画像を選定
- * 3. Gemini画像生成で主題を強調した画像に変換
- * 4. HTML出力
+ * 3. 画像バックエンド（Gemini / OpenAI / ローカル補正）で主題を強調した画像に変換
+ * 4. テーマ（themes/<name>/）でHTML・Markdown（YAMLフロントマター付き）出力、セクションからチャプターを出力
+ * 記事の言語は --article-language（既定: VTTヘッダーの文字起こしの言語）
  */
 
 import "dotenv/config";
-import { readFileSync, writeFileSync, readdirSync, mkdirSync, copyFileSync } from "fs";
+import { readFileSync, mkdirSync } from "fs";
 import { join, basename, dirname } from "path";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GoogleGenAI } from "@google/genai";
-import sharp from "sharp";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-const imageAI = new GoogleGenAI({});
-
-type ContentType = "blog" | "lp" | "tutorial";
-
-interface VttCue {
-  startTime: number; // 秒
-  endTime: number;
+import { parseArgs } from "util";
+import {
+  createTextProvider,
+  checkTextProviderCredentials,
+  isTextProviderName,
+  TEXT_PROVIDERS,
+  type TextProvider,
+  type TextProviderOptions,
+} from "./lib/text-provider.js";
+import {
+  createImageBackend,
+  transformWithFallback,
+  sectionImagePrompt,
+  isImageBackendName,
+  IMAGE_BACKENDS,
+  type ImageBackendName,
+} from "./lib/image-backend.js";
+import { createProgressReporter } from "./lib/progress.js";
+import {
+  countWords,
+  parseLengthSetting,
+  resolveArticleLength,
+  type ArticleLength,
+  type ArticleLengthOptions,
+} from "./lib/article-length.js";
+import {
+  parseVtt,
+  cuesToText,
+  cuesToTimedText,
+  chunkCues,
+  summarizeChunks,
+  chunkSummariesToText,
+  snapToCue,
+  speakerRequirement,
+  listSpeakers,
+  readVttLanguage,
+  DIRECT_PROMPT_MAX_CHARS,
+  type VttCue,
+} from "./lib/transcript.js";
+import {
+  generateArticle,
+  writeContentFile,
+  CONTENT_STYLE_GUIDES,
+  type ContentFile,
+  type ContentType,
+  type GeneratedContent,
+  type SectionAssets,
+} from "./lib/content-schema.js";
+import { loadTheme, DEFAULT_THEME } from "./lib/theme.js";
+import { DEFAULT_IMAGE_BASE } from "./lib/markdown.js";
+import { renderProject } from "./lib/render.js";
+import { YOUTUBE_MIN_CHAPTERS, YOUTUBE_MIN_CHAPTER_SECONDS } from "./lib/chapters.js";
+import { resolveVideoEmbed } from "./lib/video-embed.js";
+import {
+  AUTO_LANGUAGE,
+  DEFAULT_ARTICLE_LANGUAGE,
+  countsCharacters,
+  isLanguageSetting,
+  languageName,
+} from "./lib/language.js";
+import {
+  readManifest,
+  selectBestFrame,
+  hammingDistance,
+  DEFAULT_MIN_FRAME_DISTANCE,
+  type FrameInfo,
+} from "./lib/frames.js";
+
+const reportProgress = createProgressReporter({ summarize: 4, classify: 1, sections: 3, images: 16 });
+
+// プロンプトに入れる動画の内容（短ければ時刻付きの文字起こし、長ければ区間ごとの要約）
+interface TranscriptMaterial {
+  kind: "transcript" | "summary";
   text: string;
 }
 
-interface Section {
-  heading: string;
-  body: string;
-  startTime: number;
-  imagePrompt: string;
-}
-
-interface GeneratedContent {
-  type: ContentType;
-  title: string;
-  sections: Section[];
-}
-
-function parseVtt(vttContent: string): VttCue[] {
-  const lines = vttContent.split("\n");
-  const cues: VttCue[] = [];
-  let i = 0;
-
-  // Skip header
-  while (i < lines.length && !lines[i].includes("-->")) i++;
-
-  while (i < lines.length) {
-    const line = lines[i].trim();
-    if (line.includes("-->")) {
-      const [start, end] = line.split("-->").map((t) => {
-        const parts = t.trim().split(":");
-        if (parts.length === 3) {
-          const [h, m, s] = parts;
-          return parseInt(h) * 3600 + parseInt(m) * 60 + parseFloat(s.replace(",", "."));
-        }
-        const [m, s] = parts;
-        return parseInt(m) * 60 + parseFloat(s.replace(",", "."));
-      });
-
-      i++;
-      let text = "";
-      while (i < lines.length && lines[i].trim() && !lines[i].includes("-->")) {
-        text += lines[i].trim() + " ";
-        i++;
-      }
-      if (text.trim()) {
-        cues.push({ startTime: start, endTime: end, text: text.trim() });
-      }
-    } else {
-      i++;
-    }
-  }
-  return cues;
-}
-
-function cuesToText(cues: VttCue[]): string {
-  return cues.map((c) => c.text).join(" ");
-}
+const MATERIAL_DESCRIPTIONS: Record<TranscriptMaterial["kind"], string> = {
+  transcript: "文字起こし（各行の先頭の [数字] は発言の開始時刻・秒）",
+  summary: "動画全体を区間ごとに要約したもの（見出しは区間の時刻、各要点の先頭の [数字] は開始時刻・秒）",
+};
 
-async function classifyContent(transcript: string): Promise<ContentType> {
-  console.log("コンテンツタイプを判定中...");
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+async function classifyContent(provider: TextProvider, material: TranscriptMaterial): Promise<ContentType> {
+  console.log(`コンテンツタイプを判定中（${provider.name}: ${provider.model}）...`);
 
-  const prompt = `以下の文字起こしテキストを分析し、最も適切なコンテンツタイプを1つだけ回答してください。
+  const prompt = `以下の動画の${MATERIAL_DESCRIPTIONS[material.kind]}を分析し、動画全体として最も適切なコンテンツタイプを1つだけ回答してください。
 
 タイプ:
 - blog: 一般的な解説、レビュー、日記、雑談
 - lp: 製品紹介、プロモーション、セールス
 - tutorial: ハウツー、手順説明、チュートリアル
 
-文字起こし:
-${transcript.slice(0, 3000)}
+内容:
+${material.text}
 
 回答（blog/lp/tutorialのいずれか1つのみ）:`;
 
-  const result = await model.generateContent(prompt);
-  const response = result.response.text().trim().toLowerCase();
+  const response = (await provider.generate(prompt)).trim().toLowerCase();
 
   if (response.includes("tutorial")) return "tutorial";
   if (response.includes("lp")) return "lp";
@@ -104,39 +116,45 @@ ${transcript.slice(0, 3000)}
 }
 
 async function generateSections(
+  provider: TextProvider,
   cues: VttCue[],
-  contentType: ContentType
+  material: TranscriptMaterial,
+  contentType: ContentType,
+  length: ArticleLength,
+  language: string
 ): Promise<GeneratedContent> {
-  console.log(`セクション生成中（タイプ: ${contentType}）...`);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+  console.log(`セクション生成中（タイプ: ${contentType}, ${length.sections}セクション × 約${length.wordsPerSection}語）...`);
 
-  const transcript = cuesToText(cues);
   const duration = cues[cues.length - 1]?.endTime || 0;
 
-  const styleGuide = {
-    blog: "読みやすいブログ記事風。親しみやすい口調で。",
-    lp: "魅力的なランディングページ風。ベネフィットを強調。",
-    tutorial: "分かりやすいチュートリアル風。ステップバイステップで。",
-  };
+  // 日本語・中国語などは語数より文字数の方がモデルに伝わりやすい
+  const wordsHint = countsCharacters(language)
+    ? `約${length.wordsPerSection}語（約${length.wordsPerSection * 2}文字）`
+    : `約${length.wordsPerSection}語`;
 
-  const prompt = `以下の文字起こし（動画長: ${Math.floor(duration)}秒）から、${styleGuide[contentType]}のコンテンツを生成してください。
+  const prompt = `以下の動画の${MATERIAL_DESCRIPTIONS[material.kind]}（動画長: ${Math.floor(duration)}秒）から、${CONTENT_STYLE_GUIDES[contentType]}のコンテンツを生成してください。
 
 要件:
+- タイトル・タグ・見出し・本文はすべて${languageName(language)}（${language}）で書く（動画の言語と異なる場合は翻訳する）
 - タイトル1つ
-- 4つのセクション
+- 記事の内容を表すタグ3〜5個
+- ちょうど${length.sections}つのセクション
 - 各セクションに: 見出し、本文、開始時刻（秒）、画像生成プロンプト
-- 画像生成プロンプトは、そのセクションの内容を視覚的に表現する短い英語の説明（例: "Two developers discussing code on a screen"）
+- 本文は各セクション${wordsHint}、記事全体で約${length.totalWords}語
+- 開始時刻は、そのセクションの内容が話され始める時刻（0〜${Math.floor(duration)}の数値）を内容中の [数字] から選ぶ。セクションは時刻順に並べる
+- 画像生成プロンプトは、そのセクションの内容を視覚的に表現する短い英語の説明（例: "Two developers discussing code on a screen"）${speakerRequirement(cues)}
 
-文字起こし:
-${transcript}
+内容:
+${material.text}
 
-JSON形式で出力:
+次の形式のJSONのみを出力:
 {
   "title": "記事タイトル",
+  "tags": ["タグ"],
   "sections": [
     {
       "heading": "セクション見出し",
-      "body": "本文（HTMLタグ可）",
+      "body": "本文（HTMLタグ可: p, strong, em, ul, ol, li, a, code, blockquote 等。script・style・img は不可）",
       "startTime": 0,
       "imagePrompt": "English description for image generation"
     }
@@ -145,233 +163,166 @@ JSON形式で出力:
 
 JSON:`;
 
-  const result = await model.generateContent(prompt);
-  const responseText = result.response.text();
-  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) throw new Error("JSON生成に失敗しました");
-
-  const parsed = JSON.parse(jsonMatch[0]);
-  return { type: contentType, ...parsed };
-}
-
-function timecodeToSeconds(timecode: string): number {
-  // frame_01_30_00.jpg -> 5400秒
-  const match = timecode.match(/(\d{2})_(\d{2})_(\d{2})/);
-  if (!match) return 0;
-  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]);
-}
-
-function findNearestFrame(frames: string[], targetTime: number): string {
-  let nearest = frames[0];
-  let minDiff = Infinity;
+  // JSONモードで生成し、スキーマを満たさなければエラーを伝えて修正させる
+  const article = await generateArticle(provider, prompt, { sections: length.sections, duration });
+  const content: GeneratedContent = { type: contentType, language, ...article };
 
-  for (const frame of frames) {
-    const frameTime = timecodeToSeconds(basename(frame));
-    const diff = Math.abs(frameTime - targetTime);
-    if (diff < minDiff) {
-      minDiff = diff;
-      nearest = frame;
-    }
+  // 開始時刻を実際の発言の開始時刻に合わせる
+  for (const section of content.sections) {
+    section.startTime = snapToCue(cues, Number(section.startTime));
   }
-  return nearest;
+  return content;
 }
 
-async function analyzeAndSelectBestFrame(
-  frames: string[],
-  targetTime: number,
-  windowSeconds: number = 120
-): Promise<string> {
-  // 時刻の前後windowSeconds秒の画像を候補として選ぶ
-  const candidates = frames.filter((f) => {
-    const t = timecodeToSeconds(basename(f));
-    return Math.abs(t - targetTime) <= windowSeconds;
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      provider: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      "image-backend": { type: "string" },
+      "image-model": { type: "string" },
+      "min-frame-distance": { type: "string", default: String(DEFAULT_MIN_FRAME_DISTANCE) },
+      sections: { type: "string", default: "auto" },
+      "section-words": { type: "string", default: "auto" },
+      "total-words": { type: "string" },
+      "image-base": { type: "string", default: DEFAULT_IMAGE_BASE },
+      source: { type: "string" },
+      theme: { type: "string", default: DEFAULT_THEME },
+      video: { type: "string" },
+      "article-language": { type: "string", default: AUTO_LANGUAGE },
+    },
+    allowPositionals: true,
   });
+  const [vttPath, framesDir] = positionals;
 
-  if (candidates.length === 0) {
-    return findNearestFrame(frames, targetTime);
+  if (!vttPath || !framesDir) {
+    console.log("使い方: npx tsx generate-html.ts <transcript.vtt> <frames_dir> [オプション]");
+    console.log("\nオプション:");
+    console.log(`  --provider <${TEXT_PROVIDERS.join("|")}>  テキスト生成プロバイダ（既定: TEXT_PROVIDER または gemini）`);
+    console.log("  --model <name>        モデル名（既定: TEXT_MODEL またはプロバイダ既定）");
+    console.log("  --base-url <url>      OpenAI互換エンドポイントのURL（openai/local）");
+    console.log(`  --image-backend <${IMAGE_BACKENDS.join("|")}>  画像変換バックエンド（既定: IMAGE_BACKEND）`);
+    console.log("  --image-model <name>  画像モデル名（gemini/openai）");
+    console.log(`  --min-frame-distance <0-64>  セクション間で選ぶフレームの最小ハッシュ距離（既定: ${DEFAULT_MIN_FRAME_DISTANCE}）`);
+    console.log("  --sections <n|auto>       セクション数（既定: auto = 動画長・文字起こし量から決定）");
+    console.log("  --section-words <n|auto>  セクションあたりの本文の語数（既定: auto）");
+    console.log(`  --image-base <path>   Markdown内の画像パスの基点（例: /images/posts/my-post、既定: ${DEFAULT_IMAGE_BASE}）`);
+    console.log("  --source <name>       フロントマターに記録する元動画名（既定: VTTと同名の.mp4）");
+    console.log(`  --theme <name>        HTMLのテーマ（THEMES_DIR内のディレクトリ名、既定: ${DEFAULT_THEME}）`);
+    console.log("  --video <path|url>    記事に埋め込む動画（HTMLからの動画ファイルの相対パス、または YouTube / Vimeo のURL）");
+    console.log("  --total-words <n>         記事全体の語数（セクション数・語数のautoの決定に使う）");
+    console.log(`  --article-language <code|auto>  記事の言語（ja, en 等。既定: auto = 文字起こしの言語、不明なら ${DEFAULT_ARTICLE_LANGUAGE}）`);
+    process.exit(1);
   }
 
-  // シャープネスで最良の画像を選ぶ
-  let best = candidates[0];
-  let bestScore = 0;
-
-  for (const frame of candidates) {
-    const { data, info } = await sharp(frame)
-      .greyscale()
-      .raw()
-      .toBuffer({ resolveWithObject: true });
-
-    let variance = 0;
-    const width = info.width;
-    for (let i = 1; i < data.length - 1; i++) {
-      if (i % width === 0 || i % width === width - 1) continue;
-      const laplacian = -4 * data[i] + data[i - 1] + data[i + 1] + data[i - width] + data[i + width];
-      variance += laplacian * laplacian;
-    }
-    const score = Math.sqrt(variance / data.length);
-
-    if (score > bestScore) {
-      bestScore = score;
-      best = frame;
+  for (const key of ["sections", "section-words", "total-words"] as const) {
+    if (parseLengthSetting(values[key]) === null) {
+      console.error(`エラー: --${key} には正の整数または auto を指定してください`);
+      process.exit(1);
     }
   }
+  const lengthOptions: ArticleLengthOptions = {
+    sections: parseLengthSetting(values.sections) ?? undefined,
+    wordsPerSection: parseLengthSetting(values["section-words"]) ?? undefined,
+    totalWords: parseLengthSetting(values["total-words"]) ?? undefined,
+  };
 
-  return best;
-}
-
-async function transformImage(
-  imagePath: string,
-  prompt: string,
-  outputPath: string
-): Promise<void> {
-  const imageData = readFileSync(imagePath);
-  const base64Image = imageData.toString("base64");
-
-  const contents = [
-    {
-      text: `Transform this image to emphasize: ${prompt}. Make it clean, professional, and visually appealing for a blog post. Keep the main subject but enhance the visual presentation.`,
-    },
-    {
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: base64Image,
-      },
-    },
-  ];
-
-  const response = await imageAI.models.generateContent({
-    model: "gemini-2.5-flash-image",
-    contents,
-  });
+  if (!isLanguageSetting(values["article-language"]!)) {
+    console.error("エラー: --article-language には言語コード（ja, en 等）または auto を指定してください");
+    process.exit(1);
+  }
 
-  for (const part of response.candidates![0].content!.parts!) {
-    if (part.inlineData) {
-      const buffer = Buffer.from(part.inlineData.data!, "base64");
-      writeFileSync(outputPath, buffer);
-      return;
-    }
+  const minFrameDistance = parseInt(values["min-frame-distance"]!, 10);
+  if (!(minFrameDistance >= 0 && minFrameDistance <= 64)) {
+    console.error("エラー: --min-frame-distance は0〜64を指定してください");
+    process.exit(1);
   }
 
-  // 画像生成失敗時は元画像をコピー
-  copyFileSync(imagePath, outputPath);
-}
+  if (values.provider && !isTextProviderName(values.provider)) {
+    console.error(`エラー: 不明なプロバイダ: ${values.provider}`);
+    process.exit(1);
+  }
 
-function buildHTML(content: GeneratedContent, images: string[]): string {
-  const templates = {
-    blog: { bg: "#ffffff", accent: "#2563eb", font: "serif" },
-    lp: { bg: "#f8fafc", accent: "#059669", font: "sans-serif" },
-    tutorial: { bg: "#fffbeb", accent: "#d97706", font: "monospace" },
+  const providerOptions: TextProviderOptions = {
+    provider: values.provider as TextProviderOptions["provider"],
+    model: values.model,
+    baseUrl: values["base-url"],
   };
-
-  const style = templates[content.type];
-
-  const sectionsHTML = content.sections
-    .map((section, i) => {
-      const time = new Date(section.startTime * 1000).toISOString().substr(11, 8);
-      return `
-    <section class="section">
-      <div class="timestamp">${time}</div>
-      <img src="${images[i] || ""}" alt="${section.heading}" class="section-image">
-      <div class="section-content">
-        <h2>${section.heading}</h2>
-        <div class="body">${section.body}</div>
-      </div>
-    </section>`;
-    })
-    .join("\n");
-
-  return `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${content.title}</title>
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body {
-      font-family: ${style.font}, system-ui, sans-serif;
-      background: ${style.bg};
-      color: #1f2937;
-      line-height: 1.8;
-    }
-    .container { max-width: 800px; margin: 0 auto; padding: 2rem; }
-    h1 {
-      font-size: 2.5rem;
-      color: ${style.accent};
-      margin-bottom: 2rem;
-      text-align: center;
-    }
-    .section { margin-bottom: 3rem; position: relative; }
-    .timestamp {
-      position: absolute;
-      top: 0.5rem;
-      right: 0.5rem;
-      background: rgba(0,0,0,0.7);
-      color: white;
-      padding: 0.25rem 0.5rem;
-      border-radius: 4px;
-      font-size: 0.8rem;
-      font-family: monospace;
-    }
-    .section-image {
-      width: 100%;
-      height: 400px;
-      object-fit: cover;
-      border-radius: 8px;
-      margin-bottom: 1.5rem;
-    }
-    h2 {
-      font-size: 1.5rem;
-      color: ${style.accent};
-      margin-bottom: 1rem;
-      border-left: 4px solid ${style.accent};
-      padding-left: 1rem;
-    }
-    .body { font-size: 1.1rem; }
-    .body p { margin-bottom: 1rem; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <h1>${content.title}</h1>
-    ${sectionsHTML}
-  </div>
-</body>
-</html>`;
-}
-
-async function main(): Promise<void> {
-  const vttPath = process.argv[2];
-  const framesDir = process.argv[3];
-
-  if (!vttPath || !framesDir) {
-    console.log("使い方: npx tsx generate-html.ts <transcript.vtt> <frames_dir>");
+  const credentialError = checkTextProviderCredentials(providerOptions);
+  if (credentialError) {
+    console.error(`エラー: ${credentialError}`);
     process.exit(1);
   }
+  const provider = createTextProvider(providerOptions);
 
-  if (!process.env.GEMINI_API_KEY) {
-    console.error("エラー: GEMINI_API_KEY環境変数を設定してください");
+  if (values["image-backend"] && !isImageBackendName(values["image-backend"])) {
+    console.error(`エラー: 不明な画像バックエンド: ${values["image-backend"]}`);
     process.exit(1);
   }
+  const imageBackend = createImageBackend({
+    backend: values["image-backend"] as ImageBackendName | undefined,
+    model: values["image-model"],
+  });
+  console.log(`画像バックエンド: ${imageBackend.name}`);
+
+  // テーマ・埋め込む動画（生成前に確認して、誤りがあればすぐに終了）
+  const theme = loadTheme(values.theme);
+  console.log(`テーマ: ${theme.name}`);
+  const video = values.video ? resolveVideoEmbed(values.video) : undefined;
+  if (video) console.log(`埋め込む動画: ${video.kind === "file" ? video.src : video.url}`);
 
   // VTT解析
   const vttContent = readFileSync(vttPath, "utf-8");
   const cues = parseVtt(vttContent);
-  console.log(`VTT解析: ${cues.length}キュー`);
-
-  // フレーム一覧
-  const frames = readdirSync(framesDir)
-    .filter((f) => f.endsWith(".jpg"))
-    .sort()
-    .map((f) => join(framesDir, f));
+  const speakers = listSpeakers(cues);
+  console.log(`VTT解析: ${cues.length}キュー${speakers.length > 0 ? `（話者: ${speakers.join(", ")}）` : ""}`);
+
+  // 記事の言語（auto なら文字起こしの言語）
+  const transcriptLanguage = readVttLanguage(vttContent);
+  const articleLanguage =
+    values["article-language"] === AUTO_LANGUAGE
+      ? (transcriptLanguage ?? DEFAULT_ARTICLE_LANGUAGE)
+      : values["article-language"]!;
+  console.log(`言語: 文字起こし ${transcriptLanguage ?? "不明"} → 記事 ${articleLanguage}`);
+
+  // フレーム一覧（抽出時のマニフェスト）
+  const { frames, videoDuration } = readManifest(framesDir);
+  if (frames.length === 0) throw new Error("フレームがありません");
   console.log(`フレーム: ${frames.length}枚`);
 
-  // コンテンツタイプ判定
-  const contentType = await classifyContent(cuesToText(cues));
+  // 長い文字起こしは区間ごとに要約してから使う
+  const transcriptText = cuesToText(cues);
+  let material: TranscriptMaterial;
+  if (transcriptText.length > DIRECT_PROMPT_MAX_CHARS) {
+    const chunks = chunkCues(cues);
+    console.log(`文字起こしが長いため ${chunks.length}区間に分けて要約します（${provider.name}: ${provider.model}）`);
+    reportProgress("summarize", 0, "区間の要約");
+    const summarized = await summarizeChunks(provider, chunks, (done, total) =>
+      reportProgress("summarize", done / total, `区間の要約 ${done}/${total}`)
+    );
+    material = { kind: "summary", text: chunkSummariesToText(summarized) };
+  } else {
+    material = { kind: "transcript", text: cuesToTimedText(cues) };
+  }
+
+  // コンテンツタイプ判定（動画全体から）
+  reportProgress("classify", 0, "コンテンツタイプ判定");
+  const contentType = await classifyContent(provider, material);
+  reportProgress("classify", 1, "コンテンツタイプ判定");
   console.log(`判定結果: ${contentType}`);
 
+  // 記事の構成
+  const length = resolveArticleLength(lengthOptions, {
+    duration: cues[cues.length - 1]?.endTime || 0,
+    transcriptWords: countWords(transcriptText),
+  });
+  console.log(`構成: ${length.sections}セクション × 約${length.wordsPerSection}語（計 約${length.totalWords}語）`);
+
   // セクション生成
-  const content = await generateSections(cues, contentType);
+  reportProgress("sections", 0, "セクション生成");
+  const content = await generateSections(provider, cues, material, contentType, length, articleLanguage);
+  reportProgress("sections", 1, "セクション生成");
   console.log(`タイトル: ${content.title}`);
 
   // 出力ディレクトリ（framesと同じ親ディレクトリのoutput/に出力）
@@ -380,39 +331,71 @@ async function main(): Promise<void> {
   mkdirSync(outputDir, { recursive: true });
 
   // 各セクションの画像を選定・変換
-  const outputImages: string[] = [];
+  const sectionAssets: SectionAssets[] = [];
+  const chosenFrames: FrameInfo[] = [];
   for (let i = 0; i < content.sections.length; i++) {
     const section = content.sections[i];
-    console.log(`\n[${i + 1}/4] ${section.heading}`);
+    console.log(`\n[${i + 1}/${content.sections.length}] ${section.heading}`);
+    reportProgress("images", i / content.sections.length, `画像 ${i + 1}/${content.sections.length}`);
     console.log(`  時刻: ${section.startTime}秒`);
 
-    // 最適な画像を選定
-    const selectedFrame = await analyzeAndSelectBestFrame(frames, section.startTime);
+    // 最適な画像を選定（他のセクションと見た目が重ならないもの）
+    const frame = selectBestFrame(frames, section.startTime, {
+      exclude: chosenFrames,
+      minDistance: minFrameDistance,
+    });
+    const distance = Math.min(64, ...chosenFrames.map((c) => hammingDistance(c.phash, frame.phash)));
+    if (distance < minFrameDistance) {
+      console.log(`  警告: 他のセクションと十分に異なるフレームがありません（距離${distance}）`);
+    }
+    chosenFrames.push(frame);
+    const selectedFrame = join(framesDir, frame.file);
     console.log(`  選定: ${basename(selectedFrame)}`);
 
     // 画像変換
     const imageName = `section_${i + 1}.png`;
     const outputPath = join(outputDir, imageName);
     console.log(`  変換中: ${section.imagePrompt}`);
-    try {
-      await transformImage(selectedFrame, section.imagePrompt, outputPath);
-      console.log(`  → ${basename(outputPath)}`);
-    } catch (err) {
-      console.log(`  変換失敗、元画像を使用`);
-      copyFileSync(selectedFrame, outputPath);
-    }
-    // HTMLからの相対パスを保存
-    outputImages.push(`output/${imageName}`);
+    const result = await transformWithFallback(imageBackend, selectedFrame, sectionImagePrompt(section.imagePrompt), outputPath);
+    console.log(`  → ${basename(outputPath)} (${result.backend})`);
+    // HTMLからの相対パスと、選んだフレームを保存
+    sectionAssets.push({
+      frame: frame.file,
+      image: `output/${imageName}`,
+      imageBackend: result.backend,
+      imageFallback: result.fallbackError,
+    });
   }
+  reportProgress("images", 1, "画像");
+
+  // 生成結果を保存（render.ts でAIを使わずに再描画できるように）
+  const file: ContentFile = {
+    version: 1,
+    content,
+    sections: sectionAssets,
+    source: values.source ?? basename(vttPath).replace(/\.vtt$/, ".mp4"),
+    imageBase: values["image-base"],
+    video,
+    duration: videoDuration || cues[cues.length - 1]?.endTime,
+    generatedAt: new Date().toISOString(),
+  };
+  writeContentFile(projectDir, file);
 
-  // HTML生成（同じディレクトリにvideo.htmlとして出力）
-  const html = buildHTML(content, outputImages);
-  const htmlPath = join(projectDir, "video.html");
-  writeFileSync(htmlPath, html);
+  // HTML（video.html）・Markdown（video.md）・チャプター（chapters.vtt / chapters.txt）を出力
+  const { htmlPath, markdownPath, chaptersVttPath, youtubeChaptersPath } = renderProject(projectDir, file, { theme });
 
   console.log(`\n完了！`);
   console.log(`出力: ${htmlPath}`);
+  console.log(`Markdown: ${markdownPath}`);
+  console.log(`チャプター: ${chaptersVttPath ?? "なし（動画長が不明）"}`);
+  console.log(
+    `YouTubeのチャプター: ${youtubeChaptersPath ?? `なし（${YOUTUBE_MIN_CHAPTERS}つ以上・各${YOUTUBE_MIN_CHAPTER_SECONDS}秒以上の条件を満たさない）`}`
+  );
   console.log(`画像: ${outputDir}`);
+  const fallbacks = sectionAssets.map((assets, i) => (assets.imageFallback ? i + 1 : 0)).filter(Boolean);
+  if (fallbacks.length > 0) {
+    console.log(`警告: セクション${fallbacks.join(", ")}の画像は ${imageBackend.name} で変換できず、ローカル補正（enhance）にしました`);
+  }
 }
 
 main().catch((err) => {
@@ -0,0 +1,157 @@
+#!/usr/bin/env npx tsx
+/**
+ * 生成済みの記事（content.json）と文字起こしから SNS 向けの投稿を作るスクリプト
+ * - X / Bluesky のスレッド（各投稿を両方の文字数の上限に収める）
+ * - LinkedIn の投稿・ニュースレター向けの紹介文（それぞれセクションの画像を1枚添える）
+ * 結果は social.json に保存する
+ */
+
+import "dotenv/config";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import {
+  createTextProvider,
+  checkTextProviderCredentials,
+  isTextProviderName,
+  TEXT_PROVIDERS,
+  type TextProvider,
+  type TextProviderOptions,
+} from "./lib/text-provider.js";
+import { generateValidatedJson, readContentFile, CONTENT_FILE, type ContentFile } from "./lib/content-schema.js";
+import { DEFAULT_ARTICLE_LANGUAGE, countsCharacters, languageName } from "./lib/language.js";
+import { htmlToMarkdown } from "./lib/markdown.js";
+import { createProgressReporter } from "./lib/progress.js";
+import {
+  validateSocialPosts,
+  writeSocialFile,
+  BLUESKY_MAX_GRAPHEMES,
+  LINKEDIN_MAX_CHARS,
+  NEWSLETTER_MAX_CHARS,
+  SOCIAL_FILE,
+  THREAD_MAX_POSTS,
+  THREAD_MIN_POSTS,
+  X_MAX_WEIGHT,
+  type SocialPosts,
+} from "./lib/social.js";
+import { cuesToTimedText, parseVtt, speakerRequirement, type VttCue } from "./lib/transcript.js";
+
+const reportProgress = createProgressReporter({ social: 1 });
+
+// 記事があるので、文字起こしは引用・言い回しの参考に冒頭の一部だけを入れる
+const TRANSCRIPT_EXCERPT_MAX_CHARS = 6000;
+
+async function generatePosts(provider: TextProvider, file: ContentFile, cues: VttCue[]): Promise<SocialPosts> {
+  const { content } = file;
+  const language = content.language ?? DEFAULT_ARTICLE_LANGUAGE;
+  console.log(`SNS投稿を生成中（${provider.name}: ${provider.model}）...`);
+
+  // 日本語・中国語などは全角文字がXで2カウントになる
+  const threadHint = countsCharacters(language) ? `（全角文字は1文字を2と数えるので、約${Math.floor(X_MAX_WEIGHT / 2) - 10}文字以内）` : "";
+  const article = content.sections
+    .map((section, i) => `## セクション${i + 1}: ${section.heading}\n${htmlToMarkdown(section.body)}`)
+    .join("\n\n");
+  const transcript = cues.length > 0 ? `\n\n文字起こし（冒頭の抜粋。各行の先頭の [数字] は発言の開始時刻・秒）:\n${cuesToTimedText(cues).slice(0, TRANSCRIPT_EXCERPT_MAX_CHARS)}` : "";
+
+  const prompt = `動画から作った記事「${content.title}」を、SNSで紹介する投稿を作ってください。
+
+要件:
+- すべて${languageName(language)}（${language}）で書く
+- thread: X と Bluesky に投稿するスレッド。${THREAD_MIN_POSTS}〜${THREAD_MAX_POSTS}件
+  - 1件目は記事の一番の要点で興味を引き、最後の件は記事全体のまとめにする
+  - 各投稿は単独で読んでも意味が通るように書き、番号（1/5 等）は付けない
+  - 各投稿はXの文字数で${X_MAX_WEIGHT}以下${threadHint}、かつ${BLUESKY_MAX_GRAPHEMES}文字以下
+  - ハッシュタグは最後の投稿に2つまで
+- linkedin: LinkedIn の投稿（${LINKEDIN_MAX_CHARS}文字以下）。最初の2行で要点を伝え、要点を3〜5個の箇条書きにし、読者への問いかけで締める
+- newsletter: ニュースレターで記事を紹介する2〜3文の紹介文（${NEWSLETTER_MAX_CHARS}文字以下）
+- linkedin・newsletter には、添える画像として投稿の内容に最も合うセクションの番号（section: 1〜${content.sections.length}）を選ぶ
+- 事実は記事と文字起こしに基づき、誇張しない${speakerRequirement(cues)}
+
+記事:
+# ${content.title}
+
+${article}${transcript}
+
+次の形式のJSONのみを出力:
+{
+  "thread": ["1件目の投稿", "2件目の投稿"],
+  "linkedin": { "text": "LinkedInの投稿", "section": 1 },
+  "newsletter": { "text": "ニュースレターの紹介文", "section": 1 }
+}
+
+JSON:`;
+
+  return generateValidatedJson(provider, prompt, (value) => validateSocialPosts(value, file));
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      vtt: { type: "string" },
+      provider: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [projectDir] = positionals;
+
+  if (!projectDir) {
+    console.log("使い方: npx tsx generate-social.ts <project_dir> [オプション]");
+    console.log("\nオプション:");
+    console.log("  --vtt <path>          文字起こし（既定: <project_dir>/video.vtt。なければ記事だけから作る）");
+    console.log(`  --provider <${TEXT_PROVIDERS.join("|")}>  テキスト生成プロバイダ（既定: TEXT_PROVIDER または gemini）`);
+    console.log("  --model <name>        モデル名");
+    console.log("  --base-url <url>      OpenAI互換エンドポイントのURL（openai/local）");
+    process.exit(1);
+  }
+
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    console.error(`エラー: ${CONTENT_FILE} がありません。先にHTML生成（generate-html.ts）を実行してください: ${projectDir}`);
+    process.exit(1);
+  }
+  if (values.provider && !isTextProviderName(values.provider)) {
+    console.error(`エラー: 不明なプロバイダ: ${values.provider}`);
+    process.exit(1);
+  }
+  const providerOptions: TextProviderOptions = {
+    provider: values.provider as TextProviderOptions["provider"],
+    model: values.model,
+    baseUrl: values["base-url"],
+  };
+  const credentialError = checkTextProviderCredentials(providerOptions);
+  if (credentialError) {
+    console.error(`エラー: ${credentialError}`);
+    process.exit(1);
+  }
+
+  const file = readContentFile(projectDir);
+  const vttPath = values.vtt ?? join(projectDir, "video.vtt");
+  if (values.vtt && !existsSync(vttPath)) {
+    console.error(`エラー: 文字起こしが見つかりません: ${vttPath}`);
+    process.exit(1);
+  }
+  const cues = existsSync(vttPath) ? parseVtt(readFileSync(vttPath, "utf-8")) : [];
+  console.log(`記事: ${file.content.title}（${file.content.sections.length}セクション）`);
+
+  reportProgress("social", 0, "SNS投稿の生成");
+  const posts = await generatePosts(createTextProvider(providerOptions), file, cues);
+  writeSocialFile(projectDir, {
+    version: 1,
+    language: file.content.language ?? DEFAULT_ARTICLE_LANGUAGE,
+    ...posts,
+    generatedAt: new Date().toISOString(),
+  });
+  reportProgress("social", 1, "SNS投稿の生成");
+
+  console.log(`\n完了！`);
+  console.log(`スレッド: ${posts.thread.length}件`);
+  console.log(`LinkedIn: セクション${posts.linkedin.section}の画像`);
+  console.log(`ニュースレター: セクション${posts.newsletter.section}の画像`);
+  console.log(`出力: ${join(projectDir, SOCIAL_FILE)}`);
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+#!/usr/bin/env npx tsx
+/**
+ * 既存の字幕（WebVTT / SRT / YouTube JSON3）を文字起こしとして取り込むスクリプト
+ * 文字起こし（transcribe.ts）の代わりに使い、同じ形式のVTTを出力する
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { captionsToVtt, isCaptionFormat, parseCaptions, CAPTION_FORMATS, type CaptionFormat } from "./lib/captions.js";
+import { isLanguageCode } from "./lib/language.js";
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      format: { type: "string" },
+      language: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [captionsPath, vttPath] = positionals;
+
+  if (!captionsPath || !vttPath) {
+    console.log("使い方: npx tsx import-captions.ts <captions.(vtt|srt|json3)> <output.vtt> [オプション]");
+    console.log("\nオプション:");
+    console.log(`  --format <${CAPTION_FORMATS.join("|")}>  字幕の形式（既定: 拡張子・内容から判定）`);
+    console.log("  --language <code>  字幕の言語（ja, en 等。既定: VTTヘッダーの Language）");
+    process.exit(1);
+  }
+
+  if (!existsSync(captionsPath)) {
+    console.error(`エラー: ファイルが見つかりません: ${captionsPath}`);
+    process.exit(1);
+  }
+  if (values.format && !isCaptionFormat(values.format)) {
+    console.error(`エラー: 不明な字幕の形式: ${values.format}`);
+    process.exit(1);
+  }
+  if (values.language && !isLanguageCode(values.language)) {
+    console.error("エラー: --language には言語コード（ja, en 等）を指定してください");
+    process.exit(1);
+  }
+
+  const captions = parseCaptions(readFileSync(captionsPath, "utf-8"), {
+    fileName: captionsPath,
+    format: values.format as CaptionFormat | undefined,
+  });
+  const language = values.language ?? captions.language;
+  writeFileSync(vttPath, captionsToVtt(captions, language));
+
+  console.log(`字幕を取り込みました: ${captionsPath}（${captions.format}, ${captions.cues.length}キュー）`);
+  console.log(`文字起こし: ${vttPath}`);
+  console.log(`言語: ${language ?? "不明"}`);
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -9,6 +9,13 @@ import "dotenv/config";
 import { spawn } from "child_process";
 import { existsSync } from "fs";
 import { basename, dirname, join } from "path";
+import { parseArgs } from "util";
+import {
+  checkTextProviderCredentials,
+  isTextProviderName,
+  TEXT_PROVIDERS,
+  type TextProviderOptions,
+} from "./lib/text-provider.js";
 
 function runScript(script: string, args: string[]): Promise<void> {
   return new Promise((resolve, reject) => {
@@ -30,22 +37,63 @@ function runScript(script: string, args: string[]): Promise<void> {
 }
 
 async function main(): Promise<void> {
-  const videoPath = process.argv[2];
+  const { values, positionals } = parseArgs({
+    options: {
+      provider: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      "image-backend": { type: "string" },
+      "extract-mode": { type: "string" },
+      sections: { type: "string" },
+      "section-words": { type: "string" },
+      "total-words": { type: "string" },
+      language: { type: "string" },
+      captions: { type: "string" },
+      "transcription-backend": { type: "string" },
+      "transcription-model": { type: "string" },
+      "article-language": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const videoPath = positionals[0];
 
   if (!videoPath) {
     console.log(`
 video-to-post: 動画からブログポストを自動生成
 
 使い方:
-  npx tsx index.ts <video.mp4>
-
-必要な環境変数:
-  GEMINI_API_KEY  Gemini APIキー
+  npx tsx index.ts <video.mp4> [オプション]
+
+オプション:
+  --provider <${TEXT_PROVIDERS.join("|")}>  テキスト生成プロバイダ
+  --model <name>        モデル名
+  --base-url <url>      OpenAI互換エンドポイントのURL（openai/local）
+  --image-backend <gemini|openai|enhance>  画像変換バックエンド
+  --extract-mode <interval|scene|hybrid>   フレーム抽出モード（既定: interval）
+  --sections <n|auto>       セクション数（既定: auto = 動画長・文字起こし量から決定）
+  --section-words <n|auto>  セクションあたりの本文の語数（既定: auto）
+  --total-words <n>         記事全体の語数
+  --language <code|auto>          文字起こしの言語（既定: auto = 自動判定）
+  --captions <file>               既存の字幕（.vtt / .srt / YouTube .json3）を取り込み、文字起こしを省略
+  --transcription-backend <whisper-cpp|faster-whisper|openai>  文字起こしバックエンド（既定: whisper-cpp）
+  --transcription-model <name>    文字起こしのモデルサイズ（tiny〜large-v3-turbo）またはモデル名
+  --article-language <code|auto>  記事の言語（既定: auto = 文字起こしの言語）
+
+環境変数:
+  GEMINI_API_KEY      Gemini APIキー（gemini利用時）
+  OPENAI_API_KEY      OpenAI APIキー（openai利用時）
+  TEXT_PROVIDER       既定のテキスト生成プロバイダ（既定: gemini）
+  TEXT_MODEL          既定のモデル名
+  IMAGE_BACKEND       既定の画像変換バックエンド（未設定時: GEMINI_API_KEYがあればgemini、なければenhance）
+  LOCAL_LLM_BASE_URL  ローカルLLMのURL（既定: http://localhost:11434/v1）
+  TRANSCRIPTION_BACKEND  既定の文字起こしバックエンド（既定: whisper-cpp）
+  WHISPER_MODEL       whisper-cpp / faster-whisper のモデルサイズ（既定: large-v3-turbo）
+  WHISPER_MODEL_PATH  whisper.cpp のモデルファイル（指定しなければ標準的な場所から探す）
 
 処理フロー:
-  1. 音声抽出・文字起こし (whisper-cpp) → VTT（タイムスタンプ付き）
+  1. 音声抽出・文字起こし (whisper-cpp / faster-whisper / OpenAI互換API) → VTT（タイムスタンプ付き）
   2. フレーム抽出 (ffmpeg) → 時刻付きファイル名
-  3. HTML生成 (Gemini API)
+  3. HTML生成 (Gemini / OpenAI / ローカルLLM)
      - セクション分割（時刻付き）
      - 各セクションの時刻に近い画像を選定
      - Gemini画像生成で主題を強調
@@ -59,11 +107,32 @@ video-to-post: 動画からブログポストを自動生成
     process.exit(1);
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    console.error("エラー: GEMINI_API_KEY環境変数を設定してください");
+  if (values.provider && !isTextProviderName(values.provider)) {
+    console.error(`エラー: 不明なプロバイダ: ${values.provider}`);
+    process.exit(1);
+  }
+
+  const credentialError = checkTextProviderCredentials({
+    provider: values.provider as TextProviderOptions["provider"],
+    model: values.model,
+    baseUrl: values["base-url"],
+  });
+  if (credentialError) {
+    console.error(`エラー: ${credentialError}`);
     process.exit(1);
   }
 
+  // generate-html.ts に渡すプロバイダ指定・記事の構成
+  const generateArgs: string[] = [];
+  if (values.provider) generateArgs.push("--provider", values.provider);
+  if (values.model) generateArgs.push("--model", values.model);
+  if (values["base-url"]) generateArgs.push("--base-url", values["base-url"]);
+  if (values["image-backend"]) generateArgs.push("--image-backend", values["image-backend"]);
+  if (values.sections) generateArgs.push("--sections", values.sections);
+  if (values["section-words"]) generateArgs.push("--section-words", values["section-words"]);
+  if (values["total-words"]) generateArgs.push("--total-words", values["total-words"]);
+  if (values["article-language"]) generateArgs.push("--article-language", values["article-language"]);
+
   const baseName = basename(videoPath, ".mp4");
   const dir = dirname(videoPath) || ".";
 
@@ -82,14 +151,24 @@ video-to-post: 動画からブログポストを自動生成
 出力: ${htmlPath}
 `);
 
-  // Step 1: 文字起こし（VTT形式）
-  await runScript("transcribe.ts", [videoPath]);
+  // Step 1: 文字起こし（VTT形式）。字幕があればそれを取り込む
+  const transcribeArgs: string[] = [];
+  if (values.language) transcribeArgs.push("--language", values.language);
+  if (values["transcription-backend"]) transcribeArgs.push("--backend", values["transcription-backend"]);
+  if (values["transcription-model"]) transcribeArgs.push("--model", values["transcription-model"]);
+  if (values.captions) {
+    const captionsArgs = values.language && values.language !== "auto" ? ["--language", values.language] : [];
+    await runScript("import-captions.ts", [values.captions, vttPath, ...captionsArgs]);
+  } else {
+    await runScript("transcribe.ts", [videoPath, ...transcribeArgs]);
+  }
 
   // Step 2: フレーム抽出（時刻付きファイル名）
-  await runScript("extract-frames.ts", [videoPath, "100"]);
+  const extractArgs = values["extract-mode"] ? ["--mode", values["extract-mode"]] : [];
+  await runScript("extract-frames.ts", [videoPath, "100", ...extractArgs]);
 
   // Step 3: HTML生成（画像選定・変換も含む）
-  await runScript("generate-html.ts", [vttPath, framesDir]);
+  await runScript("generate-html.ts", [vttPath, framesDir, ...generateArgs]);
 
   console.log(`
 ╔════════════════════════════════════════════════╗
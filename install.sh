@@ -90,18 +90,20 @@ else
   echo "✓ whisper-cpp インストール済み"
 fi
 
-# モデルディレクトリ設定
+# モデルディレクトリ設定（transcribe.ts もこれらの場所を探す）
 if [ "$OS" = "Darwin" ]; then
   MODEL_DIR="/opt/homebrew/share/whisper-cpp/models"
 else
   MODEL_DIR="${XDG_DATA_HOME:-$HOME/.local/share}/whisper-cpp/models"
 fi
-MODEL_PATH="$MODEL_DIR/ggml-large-v3-turbo.bin"
+# モデルサイズ（tiny / base / small / medium / large-v3 / large-v3-turbo）
+MODEL_NAME="${WHISPER_MODEL:-large-v3-turbo}"
+MODEL_PATH="$MODEL_DIR/ggml-$MODEL_NAME.bin"
 
 if [ ! -f "$MODEL_PATH" ]; then
-  echo "Whisperモデルをダウンロード中..."
+  echo "Whisperモデル（$MODEL_NAME）をダウンロード中..."
   mkdir -p "$MODEL_DIR"
-  curl -L "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-large-v3-turbo.bin" \
+  curl -L "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-$MODEL_NAME.bin" \
     -o "$MODEL_PATH"
 else
   echo "✓ Whisperモデル ダウンロード済み"
@@ -0,0 +1,86 @@
+/**
+ * 記事の構成（セクション数・分量）
+ * 数値を指定しなかった項目は "auto" として、動画長と文字起こしの量から決める
+ */
+
+export type LengthSetting = number | "auto";
+
+export interface ArticleLengthOptions {
+  sections?: LengthSetting;
+  wordsPerSection?: LengthSetting;
+  totalWords?: LengthSetting;
+}
+
+export interface ArticleLength {
+  sections: number;
+  wordsPerSection: number;
+  totalWords: number;
+}
+
+// 自動決定の範囲
+const MIN_SECTIONS = 2;
+const MAX_SECTIONS = 12;
+const MIN_WORDS_PER_SECTION = 80;
+const MAX_WORDS_PER_SECTION = 800;
+// 1セクションあたりの動画の長さ（秒）・文字起こしの語数の目安
+const SECONDS_PER_SECTION = 240;
+const TRANSCRIPT_WORDS_PER_SECTION = 800;
+// 記事の分量は文字起こしの3割程度
+const SUMMARY_RATIO = 0.3;
+
+// ひらがな・カタカナ・漢字
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/g;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * 語数を数える
+ * 英語などは空白区切りの単語数、日本語・中国語は2文字を1語として数える
+ */
+export function countWords(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const latin = text.replace(CJK_PATTERN, " ").match(/\S+/g)?.length ?? 0;
+  return latin + Math.ceil(cjk / 2);
+}
+
+// "auto" / 正の整数を解釈（CLI・APIの入力用）。未指定はundefined、不正な値はnull
+export function parseLengthSetting(value: string | number | null | undefined): LengthSetting | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (value === "auto") return "auto";
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * 指定と動画の情報から記事の構成を決める
+ * - sections / wordsPerSection を指定した場合はそれを使う
+ * - totalWords を指定した場合は、決まっていない方を割り算で求める
+ * - いずれも未指定なら動画長・文字起こしの語数に比例させる
+ */
+export function resolveArticleLength(
+  options: ArticleLengthOptions,
+  source: { duration: number; transcriptWords: number }
+): ArticleLength {
+  const fixed = (v?: LengthSetting) => (typeof v === "number" ? v : undefined);
+  let sections = fixed(options.sections);
+  let wordsPerSection = fixed(options.wordsPerSection);
+  const totalWords = fixed(options.totalWords);
+
+  if (sections === undefined && totalWords !== undefined && wordsPerSection !== undefined) {
+    sections = clamp(totalWords / wordsPerSection, 1, MAX_SECTIONS);
+  }
+  if (sections === undefined) {
+    const byDuration = source.duration / SECONDS_PER_SECTION;
+    const byTranscript = source.transcriptWords / TRANSCRIPT_WORDS_PER_SECTION;
+    sections = clamp(Math.max(byDuration, byTranscript), MIN_SECTIONS, MAX_SECTIONS);
+  }
+
+  if (wordsPerSection === undefined) {
+    const total = totalWords ?? source.transcriptWords * SUMMARY_RATIO;
+    wordsPerSection = clamp(total / sections, MIN_WORDS_PER_SECTION, MAX_WORDS_PER_SECTION);
+  }
+
+  return { sections, wordsPerSection, totalWords: sections * wordsPerSection };
+}
@@ -0,0 +1,267 @@
+/**
+ * WebVTT / SRT の解析（WebVTT 仕様のファイル構造・キュー設定・キューテキストに沿う）
+ * - ヘッダー、NOTE / STYLE / REGION ブロック、キューの識別子を読み分ける
+ * - キューテキストの装飾タグ（<c>, <i>, <b>, <ruby>, <lang>, <00:00:01.000> 等）とルビ（<rt>）を除き、文字参照を戻す
+ * - 話者（<v 話者>）は speaker として残す。1つのキューに複数の話者がいれば話者ごとのキューに分ける
+ */
+
+import type { VttCue } from "./transcript.js";
+
+// キュー設定（終了時刻の後ろの "align:start line:90%" 等）。値が仕様に合わない設定は無視する
+export interface CueSettings {
+  vertical?: "rl" | "lr";
+  line?: string; // 行番号（-1 等）またはパーセント。",start" 等の揃えを含む
+  position?: string; // パーセント。",line-left" 等の揃えを含む
+  size?: string; // パーセント
+  align?: "start" | "center" | "end" | "left" | "right";
+  region?: string;
+}
+
+export interface ParsedCue extends VttCue {
+  id?: string; // キューの識別子（VTT）・番号（SRT）
+  settings?: CueSettings;
+}
+
+// 時刻行の内容
+interface CueTiming {
+  startTime: number;
+  endTime: number;
+  settings?: CueSettings;
+}
+
+// キューテキストのうち、1人の話者の発言
+interface VoiceSpan {
+  speaker?: string;
+  text: string;
+}
+
+const NAMED_REFERENCES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  lrm: "\u200e",
+  rlm: "\u200f",
+};
+
+function normalizeNewlines(content: string): string {
+  return content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+// 文字参照（&amp; &#39; &#x27; 等）を戻す。知らない参照はそのまま残す
+function decodeReferences(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+    }
+    return NAMED_REFERENCES[name.toLowerCase()] ?? reference;
+  });
+}
+
+// (hh:)mm:ss.ttt（SRT は小数点がカンマ）→ 秒
+function parseTimestamp(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  const minutes = parseInt(m, 10);
+  const seconds = parseInt(s, 10);
+  if (minutes > 59 || seconds > 59) return null;
+  return (h ? parseInt(h, 10) * 3600 : 0) + minutes * 60 + seconds + parseInt(fraction.padEnd(3, "0"), 10) / 1000;
+}
+
+function parseCueSettings(value: string): CueSettings | undefined {
+  const settings: CueSettings = {};
+  for (const setting of value.split(/\s+/).filter(Boolean)) {
+    const colon = setting.indexOf(":");
+    if (colon <= 0 || colon === setting.length - 1) continue;
+    const name = setting.slice(0, colon);
+    const v = setting.slice(colon + 1);
+    switch (name) {
+      case "vertical":
+        if (v === "rl" || v === "lr") settings.vertical = v;
+        break;
+      case "line":
+        if (/^(-?\d+(\.\d+)?|\d+(\.\d+)?%)(,(start|center|end))?$/.test(v)) settings.line = v;
+        break;
+      case "position":
+        if (/^\d+(\.\d+)?%(,(line-left|center|line-right|auto))?$/.test(v)) settings.position = v;
+        break;
+      case "size":
+        if (/^\d+(\.\d+)?%$/.test(v)) settings.size = v;
+        break;
+      case "align":
+        if (v === "start" || v === "center" || v === "end" || v === "left" || v === "right") settings.align = v;
+        break;
+      case "region":
+        settings.region = v;
+        break;
+    }
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+// 時刻行（"00:00:01.000 --> 00:00:04.000 align:start"）。SRT の座標（X1:…）は設定として無視される
+function parseTimingLine(line: string): CueTiming | null {
+  const match = line.match(/^\s*(\S+)\s*-->\s*(\S+)(.*)$/);
+  if (!match) return null;
+  const startTime = parseTimestamp(match[1]);
+  const endTime = parseTimestamp(match[2]);
+  if (startTime === null || endTime === null) return null;
+  // 終了が開始より前のキューは開始時刻で終わるものとして扱う
+  return { startTime, endTime: Math.max(startTime, endTime), settings: parseCueSettings(match[3]) };
+}
+
+/**
+ * キューテキストを話者ごとのテキストにする
+ * タグは <英字 / </ / <数字 で始まり > で閉じるものだけを認め、それ以外の "<" は文字として扱う
+ */
+function parseCueText(text: string): VoiceSpan[] {
+  const spans: VoiceSpan[] = [];
+  const voices: (string | undefined)[] = [];
+  let current: VoiceSpan = { text: "" };
+  let inRubyText = false;
+
+  const setSpeaker = (speaker: string | undefined) => {
+    if (speaker === current.speaker) return;
+    spans.push(current);
+    current = { speaker, text: "" };
+  };
+
+  const tagPattern = /<(\/?)([a-z][^\s.>]*|\d[^>]*)([^>]*)>/gi;
+  let last = 0;
+  for (const match of text.matchAll(tagPattern)) {
+    if (!inRubyText) current.text += decodeReferences(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+
+    const [, closing, name, rest] = match;
+    if (name.toLowerCase() === "rt") inRubyText = !closing;
+    if (name.toLowerCase() !== "v") continue; // 話者以外のタグ・時刻タグは除くだけ
+    if (closing) {
+      voices.pop();
+    } else {
+      // <v.loud 話者> のクラスは捨て、空白の後ろを話者名にする
+      const annotation = decodeReferences(rest.replace(/^(\.[^\s]*)*/, "")).replace(/\s+/g, " ").trim();
+      voices.push(annotation || undefined);
+    }
+    setSpeaker(voices[voices.length - 1]);
+  }
+  if (!inRubyText) current.text += decodeReferences(text.slice(last));
+  spans.push(current);
+
+  const result: VoiceSpan[] = [];
+  for (const span of spans) {
+    let text = span.text.replace(/\s+/g, " ").trim();
+    // 話者が替わる行頭の会話ダッシュ（"- こんにちは"）は除く
+    if (spans.length > 1) text = text.replace(/^[-‐–—]\s*/, "");
+    if (text) result.push({ speaker: span.speaker, text });
+  }
+  return result;
+}
+
+// 時刻・識別子・話者ごとのテキストからキューを作る
+function toCues(timing: CueTiming, id: string | undefined, text: string): ParsedCue[] {
+  const spans = parseCueText(text);
+  // 同じ話者が続くスパンはまとめる
+  const merged: VoiceSpan[] = [];
+  for (const span of spans) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === span.speaker) {
+      previous.text += " " + span.text;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged.map((span) => {
+    const cue: ParsedCue = { startTime: timing.startTime, endTime: timing.endTime, text: span.text };
+    if (span.speaker) cue.speaker = span.speaker;
+    if (id) cue.id = id;
+    if (timing.settings) cue.settings = timing.settings;
+    return cue;
+  });
+}
+
+/**
+ * WebVTT を解析する
+ * ヘッダー（WEBVTT の行から最初の空行まで）のないファイルや、ヘッダーの直後に空行なしでキューが続くファイルも読む
+ */
+export function parseWebVtt(content: string): ParsedCue[] {
+  const lines = normalizeNewlines(content).split("\n");
+  const isBlank = (line: string) => line.trim() === "";
+  const cues: ParsedCue[] = [];
+  let i = 0;
+
+  if (/^WEBVTT(?:[ \t]|$)/.test(lines[0] ?? "")) {
+    i = 1;
+    while (i < lines.length && !isBlank(lines[i]) && !lines[i].includes("-->")) i++;
+  }
+  const skipBlock = () => {
+    while (i < lines.length && !isBlank(lines[i])) i++;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+    // コメント・スタイルシート・領域の定義
+    if (/^(NOTE|STYLE|REGION)(?:[ \t]|$)/.test(line) && !line.includes("-->")) {
+      skipBlock();
+      continue;
+    }
+
+    // 時刻行の前の行はキューの識別子
+    let id: string | undefined;
+    if (!line.includes("-->")) {
+      if (i + 1 < lines.length && lines[i + 1].includes("-->")) {
+        id = line.trim();
+        i++;
+      } else {
+        skipBlock(); // 時刻行のないブロックは仕様外として捨てる
+        continue;
+      }
+    }
+    const timing = parseTimingLine(lines[i]);
+    i++;
+
+    // キューテキストは空行か、次の時刻行の手前まで
+    const textLines: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && !lines[i].includes("-->")) {
+      textLines.push(lines[i]);
+      i++;
+    }
+    if (timing) cues.push(...toCues(timing, id, textLines.join("\n")));
+  }
+  return cues;
+}
+
+/**
+ * SRT を解析する
+ * 番号行・時刻行・テキストからなるブロックの並び。テキスト中の空行で分かれたブロックは前のキューに続ける
+ * 装飾（<i>, <font> 等のタグ、{\an8} 等のASSの指定）は除く
+ */
+export function parseSrt(content: string): ParsedCue[] {
+  const blocks = normalizeNewlines(content)
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+    .filter((block) => block.length > 0);
+
+  const entries: { timing: CueTiming; id?: string; lines: string[] }[] = [];
+  for (const block of blocks) {
+    const timingIndex = block.findIndex((line) => line.includes("-->"));
+    if (timingIndex < 0 || timingIndex > 1) {
+      // 番号だけのブロックは捨て、それ以外は前のキューのテキストの続きとする
+      const previous = entries[entries.length - 1];
+      if (previous && !(block.length === 1 && /^\d+$/.test(block[0].trim()))) previous.lines.push(...block);
+      continue;
+    }
+    const timing = parseTimingLine(block[timingIndex]);
+    if (!timing) continue;
+    entries.push({ timing, id: timingIndex === 1 ? block[0].trim() : undefined, lines: block.slice(timingIndex + 1) });
+  }
+
+  return entries.flatMap(({ timing, id, lines }) => toCues(timing, id, lines.join("\n").replace(/\{\\[^}]*\}/g, "")));
+}
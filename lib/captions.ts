@@ -0,0 +1,112 @@
+/**
+ * 既存の字幕（WebVTT / SRT / YouTube JSON3）の取り込み
+ * どの形式も parseVtt と同じ VttCue[] に正規化し（VTTの話者は残す）、video.vtt として書き出す
+ */
+
+import { extname } from "path";
+import { parseSrt, parseWebVtt } from "./caption-parser.js";
+import { cuesToVtt, readVttLanguage, setVttLanguage, type VttCue } from "./transcript.js";
+
+export const CAPTION_FORMATS = ["vtt", "srt", "json3"] as const;
+export type CaptionFormat = (typeof CAPTION_FORMATS)[number];
+
+export interface ImportedCaptions {
+  format: CaptionFormat;
+  cues: VttCue[];
+  language: string | null; // VTTヘッダーの Language（他の形式はnull）
+}
+
+// YouTubeの字幕（?fmt=json3）
+interface Json3Captions {
+  events?: {
+    tStartMs?: number;
+    dDurationMs?: number;
+    segs?: { utf8?: string }[];
+  }[];
+}
+
+export function isCaptionFormat(value: string): value is CaptionFormat {
+  return (CAPTION_FORMATS as readonly string[]).includes(value);
+}
+
+// 拡張子、なければ内容から形式を判定する
+export function detectCaptionFormat(fileName: string, content: string): CaptionFormat | null {
+  const ext = extname(fileName).toLowerCase().slice(1);
+  if (ext === "vtt" || ext === "srt" || ext === "json3") return ext;
+  if (ext === "json") return "json3";
+
+  const head = content.replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("WEBVTT")) return "vtt";
+  if (head.startsWith("{")) return "json3";
+  if (head.includes("-->")) return "srt";
+  return null;
+}
+
+export function parseJson3(content: string): VttCue[] {
+  let data: Json3Captions;
+  try {
+    data = JSON.parse(content) as Json3Captions;
+  } catch {
+    throw new Error("JSON3字幕を解析できません（JSONではありません）");
+  }
+  if (!Array.isArray(data.events)) throw new Error("JSON3字幕に events がありません");
+
+  const cues: VttCue[] = [];
+  for (const event of data.events) {
+    // 自動生成字幕の改行だけのイベント（aAppend）などは捨てる
+    const text = (event.segs ?? []).map((seg) => seg.utf8 ?? "").join("");
+    if (!text.trim() || event.tStartMs === undefined) continue;
+    const startTime = event.tStartMs / 1000;
+    cues.push({ startTime, endTime: startTime + (event.dDurationMs ?? 0) / 1000, text });
+  }
+  return cues;
+}
+
+// 空白を整え、空のキューを除き、時刻順に並べて同じ話者の同じテキストが続くキューをまとめる
+// （装飾タグ・文字参照は caption-parser で除いてある）
+function normalizeCues(cues: VttCue[]): VttCue[] {
+  const sorted = cues
+    .map(({ startTime, endTime, text, speaker }) => ({ startTime, endTime, text: text.replace(/\s+/g, " ").trim(), speaker }))
+    .filter((cue) => cue.text && Number.isFinite(cue.startTime) && Number.isFinite(cue.endTime))
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const result: VttCue[] = [];
+  for (const cue of sorted) {
+    const previous = result[result.length - 1];
+    if (previous && previous.text === cue.text && previous.speaker === cue.speaker) {
+      previous.endTime = Math.max(previous.endTime, cue.endTime);
+    } else {
+      result.push(cue);
+    }
+  }
+  return result;
+}
+
+export function parseCaptions(content: string, options: { fileName?: string; format?: CaptionFormat } = {}): ImportedCaptions {
+  const text = content.replace(/^\uFEFF/, "");
+  const format = options.format ?? detectCaptionFormat(options.fileName ?? "", text);
+  if (!format) throw new Error("字幕の形式を判定できません（vtt / srt / json3 に対応）");
+
+  let cues: VttCue[];
+  switch (format) {
+    case "vtt":
+      cues = parseWebVtt(text);
+      break;
+    case "srt":
+      cues = parseSrt(text);
+      break;
+    case "json3":
+      cues = parseJson3(text);
+      break;
+  }
+
+  cues = normalizeCues(cues);
+  if (cues.length === 0) throw new Error(`字幕にキューがありません（形式: ${format}）`);
+  return { format, cues, language: format === "vtt" ? readVttLanguage(text) : null };
+}
+
+// 取り込んだ字幕を video.vtt の形式にする（言語はヘッダーに記録）
+export function captionsToVtt(captions: ImportedCaptions, language: string | null = captions.language): string {
+  const vtt = cuesToVtt(captions.cues);
+  return language ? setVttLanguage(vtt, language) : vtt;
+}
@@ -0,0 +1,81 @@
+/**
+ * 記事のセクション（見出しと開始時刻）から動画のチャプターを作る
+ * - YouTube の概要欄に貼るチャプター一覧（"00:00 はじめに"）
+ * - WebVTT のチャプタートラック（<track kind="chapters">）
+ */
+
+import type { GeneratedContent } from "./content-schema.js";
+import { cuesToVtt, setVttLanguage } from "./transcript.js";
+
+export const CHAPTERS_TEXT_FILE = "chapters.txt";
+export const CHAPTERS_VTT_FILE = "chapters.vtt";
+
+// YouTube がチャプターとして認識する条件（先頭が0:00、3つ以上、それぞれ10秒以上）
+export const YOUTUBE_MIN_CHAPTERS = 3;
+export const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+export interface Chapter {
+  title: string;
+  startTime: number; // 秒
+  endTime: number;
+}
+
+/**
+ * セクションをチャプターにする（各チャプターは次のセクションの開始時刻まで、最後は動画の終わりまで）
+ * 最初のセクションより前（オープニング等）は最初のチャプターに含める
+ */
+export function buildChapters(content: GeneratedContent, duration: number): Chapter[] {
+  const starts = content.sections
+    .map((section) => ({ title: section.heading.replace(/\s+/g, " ").trim(), startTime: Math.max(0, section.startTime) }))
+    .filter((chapter) => chapter.startTime < duration)
+    .sort((a, b) => a.startTime - b.startTime)
+    // 開始時刻が同じセクションは最初の見出しだけを使う
+    .filter((chapter, i, sorted) => i === 0 || chapter.startTime > sorted[i - 1].startTime);
+
+  return starts.map((chapter, i) => ({
+    ...chapter,
+    startTime: i === 0 ? 0 : chapter.startTime,
+    endTime: i + 1 < starts.length ? starts[i + 1].startTime : duration,
+  }));
+}
+
+/**
+ * YouTube の条件に合わせる。10秒未満のチャプターは前のチャプター（先頭なら次のチャプター）に含める
+ * 条件を満たすチャプターが3つ未満なら null
+ */
+export function fitYoutubeChapters(chapters: Chapter[]): Chapter[] | null {
+  const fitted: Chapter[] = [];
+  for (const chapter of chapters) {
+    const previous = fitted[fitted.length - 1];
+    if (previous && chapter.endTime - chapter.startTime < YOUTUBE_MIN_CHAPTER_SECONDS) {
+      previous.endTime = chapter.endTime;
+    } else if (previous && previous.startTime === 0 && previous.endTime - previous.startTime < YOUTUBE_MIN_CHAPTER_SECONDS) {
+      fitted[fitted.length - 1] = { ...chapter, startTime: 0 };
+    } else {
+      fitted.push({ ...chapter });
+    }
+  }
+  const valid = fitted.every((chapter) => chapter.endTime - chapter.startTime >= YOUTUBE_MIN_CHAPTER_SECONDS);
+  return valid && fitted.length >= YOUTUBE_MIN_CHAPTERS ? fitted : null;
+}
+
+// YouTube のタイムスタンプ（1時間未満は 00:00、以上は 0:00:00 にそろえる）
+function formatYoutubeTime(seconds: number, withHours: boolean): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, "0");
+  return withHours ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m.toString().padStart(2, "0")}:${s}`;
+}
+
+// 概要欄に貼るチャプター一覧（fitYoutubeChapters の結果を渡す）
+export function formatYoutubeChapters(chapters: Chapter[]): string {
+  const withHours = chapters.some((chapter) => chapter.startTime >= 3600);
+  return chapters.map((chapter) => `${formatYoutubeTime(chapter.startTime, withHours)} ${chapter.title}`).join("\n") + "\n";
+}
+
+// WebVTT のチャプタートラック（各キューのテキストがチャプター名）
+export function chaptersToVtt(chapters: Chapter[], language?: string): string {
+  const vtt = cuesToVtt(chapters.map(({ title, startTime, endTime }) => ({ startTime, endTime, text: title })));
+  return language ? setVttLanguage(vtt, language) : vtt;
+}
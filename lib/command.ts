@@ -0,0 +1,71 @@
+/**
+ * 外部コマンド（ffmpeg, ffprobe, whisper-cli等）の実行
+ */
+
+import { spawn } from "child_process";
+
+export interface RunCommandOptions {
+  // 指定した場合はその出力を1行ずつ受け取る（指定しない出力はそのまま端末へ）
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+  cwd?: string; // 作業ディレクトリ（既定: 現在のディレクトリ）
+}
+
+// チャンクを行単位に分割してコールバックに渡す
+export function lineSplitter(onLine: (line: string) => void) {
+  let buffer = "";
+  return {
+    push(chunk: Buffer) {
+      buffer += chunk.toString();
+      // ffmpeg・whisperは \r で行を上書きすることがある
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+      lines.forEach(onLine);
+    },
+    flush() {
+      if (buffer) onLine(buffer);
+      buffer = "";
+    },
+  };
+}
+
+export function runCommand(cmd: string, args: string[], options: RunCommandOptions = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(cmd, args, {
+      cwd: options.cwd,
+      stdio: ["inherit", options.onStdoutLine ? "pipe" : "inherit", options.onStderrLine ? "pipe" : "inherit"],
+    });
+
+    const stdout = options.onStdoutLine ? lineSplitter(options.onStdoutLine) : null;
+    const stderr = options.onStderrLine ? lineSplitter(options.onStderrLine) : null;
+    if (stdout) proc.stdout!.on("data", stdout.push);
+    if (stderr) proc.stderr!.on("data", stderr.push);
+
+    proc.on("close", (code) => {
+      stdout?.flush();
+      stderr?.flush();
+      if (code === 0) resolve();
+      else reject(new Error(`${cmd} exited with code ${code}`));
+    });
+    proc.on("error", reject);
+  });
+}
+
+export async function getVideoDuration(videoPath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn("ffprobe", [
+      "-v", "error",
+      "-show_entries", "format=duration",
+      "-of", "default=noprint_wrappers=1:nokey=1",
+      videoPath,
+    ]);
+
+    let output = "";
+    proc.stdout.on("data", (data) => (output += data));
+    proc.on("close", (code) => {
+      if (code === 0) resolve(parseFloat(output.trim()));
+      else reject(new Error("ffprobe failed"));
+    });
+    proc.on("error", reject);
+  });
+}
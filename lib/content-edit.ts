@@ -0,0 +1,137 @@
+/**
+ * 記事エディタでの編集（タイトル・見出し・本文の修正、セクションの並べ替え・追加・削除、画像の差し替え）
+ * AIは使わない。差し替えた画像はフレームからローカル補正（enhance）で作る
+ */
+
+import { existsSync, rmSync } from "fs";
+import { basename, extname, join } from "path";
+import type { ContentFile, Section, SectionAssets } from "./content-schema.js";
+import { createImageBackend } from "./image-backend.js";
+
+export interface SectionEdit extends Section {
+  frame: string | null; // frames/ 内のファイル名
+  image: string | null; // 今の出力画像をそのまま使う場合はそのパス、フレームを選び直した場合はnull
+}
+
+export interface ContentEdit {
+  title: string;
+  tags?: string[];
+  sections: SectionEdit[];
+}
+
+export interface ContentEditContext {
+  frames: string[]; // マニフェストにあるフレーム
+  images: string[]; // 編集前の出力画像（これ以外のパスは受け付けない）
+  duration?: number; // 動画長（秒）
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+export function validateContentEdit(value: unknown, context: ContentEditContext): { edit?: ContentEdit; errors: string[] } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["ボディは { \"title\": ..., \"sections\": [...] } のオブジェクトにしてください"] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(obj.title)) errors.push("title は空でない文字列にしてください");
+  if (obj.tags !== undefined && !(Array.isArray(obj.tags) && obj.tags.every(isNonEmptyString))) {
+    errors.push("tags は文字列の配列にしてください");
+  }
+  if (!Array.isArray(obj.sections) || obj.sections.length === 0) {
+    errors.push("sections は1つ以上の配列にしてください");
+    return { errors };
+  }
+
+  const sections: SectionEdit[] = [];
+  obj.sections.forEach((raw, i) => {
+    const path = `sections[${i}]`;
+    if (typeof raw !== "object" || raw === null) {
+      errors.push(`${path} はオブジェクトにしてください`);
+      return;
+    }
+    const section = raw as Record<string, unknown>;
+    if (!isNonEmptyString(section.heading)) errors.push(`${path}.heading は空でない文字列にしてください`);
+    if (!isNonEmptyString(section.body)) errors.push(`${path}.body は空でない文字列にしてください`);
+    if (section.imagePrompt !== undefined && typeof section.imagePrompt !== "string") {
+      errors.push(`${path}.imagePrompt は文字列にしてください`);
+    }
+
+    const { startTime } = section;
+    if (typeof startTime !== "number" || !Number.isFinite(startTime) || startTime < 0) {
+      errors.push(`${path}.startTime は0以上の秒数にしてください`);
+    } else if (context.duration !== undefined && startTime > context.duration) {
+      errors.push(`${path}.startTime は0〜${Math.floor(context.duration)}秒の範囲にしてください（現在${startTime}）`);
+    }
+
+    const frame = section.frame ?? null;
+    const image = section.image ?? null;
+    if (frame !== null && !(typeof frame === "string" && context.frames.includes(frame))) {
+      errors.push(`${path}.frame が見つかりません: ${String(frame)}`);
+    }
+    if (image !== null && !(typeof image === "string" && context.images.includes(image))) {
+      errors.push(`${path}.image は編集前の画像のパスにしてください: ${String(image)}`);
+    }
+    if (image === null && frame === null) errors.push(`${path} の画像（frame）を選んでください`);
+
+    sections.push({
+      heading: String(section.heading ?? "").trim(),
+      body: String(section.body ?? ""),
+      startTime: Number(startTime),
+      imagePrompt: typeof section.imagePrompt === "string" ? section.imagePrompt : "",
+      frame: frame as string | null,
+      image: image as string | null,
+    });
+  });
+
+  if (errors.length > 0) return { errors };
+  const tags = obj.tags as string[] | undefined;
+  return { edit: { title: (obj.title as string).trim(), ...(tags && { tags }), sections }, errors };
+}
+
+// フレームから作る出力画像のパス（同じフレームなら同じ画像になる）
+function frameImagePath(frame: string): string {
+  return `output/${basename(frame, extname(frame))}.png`;
+}
+
+/**
+ * 編集を適用した ContentFile を返す
+ * 選び直したフレームの画像を作り、どのセクションからも使われなくなった出力画像を削除する
+ */
+export async function applyContentEdit(projectDir: string, file: ContentFile, edit: ContentEdit): Promise<ContentFile> {
+  const enhance = createImageBackend({ backend: "enhance" });
+  const previous = new Map(file.sections.map((assets) => [assets.image, assets]));
+
+  const sections: SectionAssets[] = [];
+  for (const section of edit.sections) {
+    if (section.image !== null) {
+      sections.push(previous.get(section.image)!);
+      continue;
+    }
+    const image = frameImagePath(section.frame!);
+    const outputPath = join(projectDir, image);
+    if (!existsSync(outputPath)) {
+      await enhance.transform(join(projectDir, "frames", section.frame!), "", outputPath);
+    }
+    sections.push({ frame: section.frame, image, imageBackend: enhance.name });
+  }
+
+  const used = new Set(sections.map((assets) => assets.image));
+  for (const image of previous.keys()) {
+    if (!used.has(image)) rmSync(join(projectDir, image), { force: true });
+  }
+
+  return {
+    ...file,
+    content: {
+      ...file.content,
+      title: edit.title,
+      tags: edit.tags ?? file.content.tags,
+      sections: edit.sections.map(({ heading, body, startTime, imagePrompt }) => ({ heading, body, startTime, imagePrompt })),
+    },
+    sections,
+    editedAt: new Date().toISOString(),
+  };
+}
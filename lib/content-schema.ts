@@ -0,0 +1,253 @@
+/**
+ * 生成コンテンツ（GeneratedContent）のスキーマと検証
+ * モデルの出力がスキーマを満たさない場合は、エラーを伝えて修正させる
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { TextProvider } from "./text-provider.js";
+import type { VideoEmbed } from "./video-embed.js";
+
+export const CONTENT_TYPES = ["blog", "lp", "tutorial"] as const;
+export type ContentType = (typeof CONTENT_TYPES)[number];
+
+// コンテンツタイプごとの文体（プロンプト用）
+export const CONTENT_STYLE_GUIDES: Record<ContentType, string> = {
+  blog: "読みやすいブログ記事風。親しみやすい口調で。",
+  lp: "魅力的なランディングページ風。ベネフィットを強調。",
+  tutorial: "分かりやすいチュートリアル風。ステップバイステップで。",
+};
+
+export interface Section {
+  heading: string;
+  body: string;
+  startTime: number; // 秒
+  imagePrompt: string;
+}
+
+export interface GeneratedContent {
+  type: ContentType;
+  title: string;
+  tags?: string[];
+  language?: string; // 記事の言語コード（ja, en 等）
+  sections: Section[];
+}
+
+// モデルに出力させる部分（type・languageは判定済み・指定済みのものを使う）
+export type GeneratedArticle = Omit<GeneratedContent, "type" | "language">;
+
+export interface ArticleConstraints {
+  sections: number; // 期待するセクション数
+  duration: number; // 動画長（秒）。startTimeはこの範囲内
+}
+
+// 生成結果の保存先（AIを使わない再描画・別のテーマでのプレビュー用）
+export const CONTENT_FILE = "content.json";
+
+// セクションごとに選んだフレームと出力画像
+export interface SectionAssets {
+  frame: string | null; // frames/ 内のファイル名（記事エディタで追加したセクション等、フレームがなければ null）
+  image: string; // 出力画像（プロジェクトディレクトリからの相対パス）
+  imageBackend?: string; // 実際に使われた画像バックエンド
+  imageFallback?: string; // 指定したバックエンドで失敗してローカル補正にしたときの理由
+}
+
+export interface ContentFile {
+  version: 1;
+  content: GeneratedContent;
+  sections: SectionAssets[]; // content.sections と同じ順
+  source?: string; // 元の動画名（Markdownのフロントマター用）
+  imageBase?: string; // Markdown内の画像パスの基点
+  video?: VideoEmbed; // 記事に埋め込む動画
+  duration?: number; // 動画長（秒）。最後のチャプターの終わり
+  generatedAt?: string;
+  editedAt?: string; // 記事エディタで最後に保存した日時
+}
+
+export function contentImages(file: ContentFile): string[] {
+  return file.sections.map((section) => section.image);
+}
+
+// 修正の再試行回数（初回を含む試行回数）
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class ContentValidationError extends Error {
+  constructor(
+    readonly errors: string[],
+    readonly attempts: number,
+    readonly lastResponse: string
+  ) {
+    super(`生成結果がスキーマを満たしません（${attempts}回試行）:\n${errors.map((e) => `- ${e}`).join("\n")}`);
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+// 検証結果（エラーがなければ article が設定される）
+export interface ValidationResult {
+  article?: GeneratedArticle;
+  errors: string[];
+}
+
+export function validateArticle(value: unknown, constraints: ArticleConstraints): ValidationResult {
+  const errors: string[] = [];
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["トップレベルは { \"title\": ..., \"sections\": [...] } のオブジェクトにしてください"] };
+  }
+  const obj = value as Record<string, unknown>;
+
+  if (!isNonEmptyString(obj.title)) errors.push("title は空でない文字列にしてください");
+  if (obj.tags !== undefined && !(Array.isArray(obj.tags) && obj.tags.every(isNonEmptyString))) {
+    errors.push("tags は文字列の配列にしてください");
+  }
+
+  if (!Array.isArray(obj.sections)) {
+    errors.push("sections は配列にしてください");
+    return { errors };
+  }
+  if (obj.sections.length !== constraints.sections) {
+    errors.push(`sections はちょうど${constraints.sections}個にしてください（現在${obj.sections.length}個）`);
+  }
+
+  const sections: Section[] = [];
+  obj.sections.forEach((raw, i) => {
+    const path = `sections[${i}]`;
+    if (typeof raw !== "object" || raw === null) {
+      errors.push(`${path} はオブジェクトにしてください`);
+      return;
+    }
+    const section = raw as Record<string, unknown>;
+    if (!isNonEmptyString(section.heading)) errors.push(`${path}.heading は空でない文字列にしてください`);
+    if (!isNonEmptyString(section.body)) errors.push(`${path}.body は空でない文字列にしてください`);
+    if (!isNonEmptyString(section.imagePrompt)) errors.push(`${path}.imagePrompt は空でない文字列にしてください`);
+
+    // "12" のような数値文字列は許容する
+    const startTime = typeof section.startTime === "string" ? Number(section.startTime) : section.startTime;
+    if (typeof startTime !== "number" || !Number.isFinite(startTime)) {
+      errors.push(`${path}.startTime は秒数（数値）にしてください`);
+    } else if (startTime < 0 || startTime > constraints.duration) {
+      errors.push(`${path}.startTime は0〜${Math.floor(constraints.duration)}秒の範囲にしてください（現在${startTime}）`);
+    }
+
+    sections.push({
+      heading: String(section.heading ?? ""),
+      body: String(section.body ?? ""),
+      startTime: Number(startTime),
+      imagePrompt: String(section.imagePrompt ?? ""),
+    });
+  });
+
+  if (errors.length > 0) return { errors };
+  const tags = obj.tags as string[] | undefined;
+  return { article: { title: obj.title as string, ...(tags && { tags }), sections }, errors };
+}
+
+// レスポンスからJSONを取り出す（JSONモード非対応のモデルはコードブロックや前置きを付けることがある）
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (!fenced && (start === -1 || end < start)) {
+      throw new Error("レスポンスにJSONオブジェクトが含まれていません");
+    }
+    const candidate = fenced ? fenced[1] : trimmed.slice(start, end + 1);
+    try {
+      return JSON.parse(candidate);
+    } catch (err) {
+      throw new Error(`JSONとして解析できません: ${(err as Error).message}`);
+    }
+  }
+}
+
+/**
+ * JSONモードで生成し、validate を満たすまで修正させる
+ * 検証エラーはモデルに伝えて再生成させ、maxAttempts回失敗したら ContentValidationError
+ */
+export async function generateValidatedJson<T>(
+  provider: TextProvider,
+  prompt: string,
+  validate: (value: unknown) => { value?: T; errors: string[] },
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<T> {
+  let currentPrompt = prompt;
+  let errors: string[] = [];
+  let response = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    response = await provider.generate(currentPrompt, { json: true });
+
+    try {
+      const result = validate(parseJsonResponse(response));
+      if (result.value !== undefined) return result.value;
+      errors = result.errors;
+    } catch (err) {
+      errors = [(err as Error).message];
+    }
+
+    console.log(`  生成結果の検証に失敗しました（${attempt}/${maxAttempts}回目）:`);
+    errors.forEach((e) => console.log(`    - ${e}`));
+
+    currentPrompt = `${prompt}
+
+---
+前回の出力は次の問題があり、要件を満たしていません。
+
+問題:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+前回の出力:
+${response.slice(0, 8000)}
+
+問題をすべて修正したJSONのみを出力してください。
+
+JSON:`;
+  }
+
+  throw new ContentValidationError(errors, maxAttempts, response);
+}
+
+// 記事全体を生成する
+export function generateArticle(
+  provider: TextProvider,
+  prompt: string,
+  constraints: ArticleConstraints,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<GeneratedArticle> {
+  return generateValidatedJson(
+    provider,
+    prompt,
+    (value) => {
+      const { article, errors } = validateArticle(value, constraints);
+      return { value: article, errors };
+    },
+    maxAttempts
+  );
+}
+
+// 1セクション分の本文の書き直し（{ "body": "..." }）
+export function validateSectionBody(value: unknown): { value?: string; errors: string[] } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["トップレベルは { \"body\": ... } のオブジェクトにしてください"] };
+  }
+  const { body } = value as Record<string, unknown>;
+  if (!isNonEmptyString(body)) return { errors: ["body は空でない文字列にしてください"] };
+  return { value: body, errors: [] };
+}
+
+export function writeContentFile(projectDir: string, file: ContentFile): void {
+  writeFileSync(join(projectDir, CONTENT_FILE), JSON.stringify(file, null, 2));
+}
+
+export function readContentFile(projectDir: string): ContentFile {
+  const path = join(projectDir, CONTENT_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`${path} が見つかりません。generate-html.ts で記事を生成し直してください`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as ContentFile;
+}
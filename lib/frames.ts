@@ -0,0 +1,231 @@
+/**
+ * フレームマニフェスト（frames.json）
+ * 抽出時に各フレームの正確な時刻と画像指標を一度だけ計算して保存し、選定処理はこれを読む
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import sharp from "sharp";
+
+export const MANIFEST_FILE = "frames.json";
+
+/**
+ * 抽出モード
+ * - interval: 一定間隔で指定枚数を抽出
+ * - scene:    ffmpegのシーンスコアで画面が切り替わったフレームを抽出
+ * - hybrid:   interval + scene
+ */
+export const EXTRACT_MODES = ["interval", "scene", "hybrid"] as const;
+export type ExtractMode = (typeof EXTRACT_MODES)[number];
+
+export function isExtractMode(value: string): value is ExtractMode {
+  return (EXTRACT_MODES as readonly string[]).includes(value);
+}
+
+// シーン検出（scene / hybrid）の既定値
+export const DEFAULT_SCENE_THRESHOLD = 0.3;
+export const DEFAULT_MIN_FRAMES = 10;
+export const DEFAULT_MAX_FRAMES = 300;
+
+export interface SceneDetectionSettings {
+  sceneThreshold: number; // シーンスコアの閾値（0〜1）
+  minFrames: number;
+  maxFrames: number;
+}
+
+// シーン検出の設定を検証し、不正ならエラーメッセージを返す
+export function validateSceneDetectionSettings(settings: SceneDetectionSettings): string | null {
+  const { sceneThreshold, minFrames, maxFrames } = settings;
+  if (!(sceneThreshold > 0 && sceneThreshold < 1)) {
+    return "sceneThreshold（--scene-threshold）は0より大きく1未満の数を指定してください";
+  }
+  if (!(Number.isInteger(minFrames) && minFrames >= 1) || !Number.isInteger(maxFrames)) {
+    return "minFrames・maxFrames（--min-frames・--max-frames）は1以上の整数を指定してください";
+  }
+  if (maxFrames < minFrames) {
+    return `maxFrames（--max-frames）は minFrames（--min-frames）以上を指定してください（${minFrames}枚以上）`;
+  }
+  return null;
+}
+
+export interface FrameMetrics {
+  width: number;
+  height: number;
+  sharpness: number; // ラプラシアンの二乗平均平方根（0〜1）
+  brightness: number; // 平均輝度（0〜1）
+  phash: string; // 64bitの差分ハッシュ（dHash, 16進数）
+}
+
+export interface FrameInfo extends FrameMetrics {
+  file: string; // framesディレクトリからの相対パス
+  timestampMs: number; // 表示時刻（ミリ秒）
+  sceneScore?: number; // シーン検出で抽出した場合のスコア
+}
+
+export interface FrameManifest {
+  version: 1;
+  videoDuration: number; // 秒
+  frames: FrameInfo[]; // 時刻順
+  dedupThreshold?: number; // 重複除去に使ったハミング距離の閾値
+}
+
+// 重複除去の既定値（dHash 64bit中の異なるビット数）
+export const DEFAULT_DEDUP_THRESHOLD = 6;
+// 異なるセクションに選ぶフレーム同士の最小距離の既定値
+export const DEFAULT_MIN_FRAME_DISTANCE = 10;
+
+// 差分ハッシュ: 9x8に縮小し、横に隣り合う画素の大小を64bitに
+async function computeDHash(imagePath: string): Promise<string> {
+  const data = await sharp(imagePath).greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << 1n) | (data[y * 9 + x] > data[y * 9 + x + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+export async function analyzeFrame(imagePath: string): Promise<FrameMetrics> {
+  const { data, info } = await sharp(imagePath)
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // 明るさ（平均輝度）
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+  }
+  const brightness = sum / data.length / 255;
+
+  // シャープネス（ラプラシアン分散の近似、端の画素は除く）
+  let variance = 0;
+  const { width, height } = info;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = -4 * data[i] + data[i - 1] + data[i + 1] + data[i - width] + data[i + width];
+      variance += laplacian * laplacian;
+    }
+  }
+  const sharpness = Math.sqrt(variance / data.length) / 255;
+
+  return {
+    width: info.width,
+    height: info.height,
+    sharpness,
+    brightness,
+    phash: await computeDHash(imagePath),
+  };
+}
+
+export function writeManifest(framesDir: string, manifest: FrameManifest): void {
+  writeFileSync(join(framesDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+export function readManifest(framesDir: string): FrameManifest {
+  const path = join(framesDir, MANIFEST_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`${path} が見つかりません。extract-frames.ts でフレームを抽出し直してください`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as FrameManifest;
+}
+
+export function frameSeconds(frame: FrameInfo): number {
+  return frame.timestampMs / 1000;
+}
+
+export function findNearestFrame(frames: FrameInfo[], targetTime: number): FrameInfo {
+  let nearest = frames[0];
+  let minDiff = Infinity;
+
+  for (const frame of frames) {
+    const diff = Math.abs(frameSeconds(frame) - targetTime);
+    if (diff < minDiff) {
+      minDiff = diff;
+      nearest = frame;
+    }
+  }
+  return nearest;
+}
+
+// 時刻に近いフレームを最大limit枚、時刻順で返す（記事エディタの画像の候補）
+export function framesNear(frames: FrameInfo[], targetTime: number, limit: number): FrameInfo[] {
+  return [...frames]
+    .sort((a, b) => Math.abs(frameSeconds(a) - targetTime) - Math.abs(frameSeconds(b) - targetTime))
+    .slice(0, limit)
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+// 2つの知覚ハッシュのハミング距離（0〜64）
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt("0x" + a) ^ BigInt("0x" + b);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * 時間的に連続するほぼ同一のフレームをまとめ、各まとまりから最もシャープな1枚だけを残す
+ * まとまりの先頭フレームとの距離がthreshold以下なら同じまとまりとみなす
+ * 戻り値は残したフレームと除いたフレーム
+ */
+export function dedupeFrames(
+  frames: FrameInfo[],
+  threshold: number
+): { kept: FrameInfo[]; removed: FrameInfo[] } {
+  if (threshold <= 0 || frames.length === 0) return { kept: frames, removed: [] };
+
+  const runs: FrameInfo[][] = [];
+  for (const frame of frames) {
+    const run = runs[runs.length - 1];
+    if (run && hammingDistance(run[0].phash, frame.phash) <= threshold) run.push(frame);
+    else runs.push([frame]);
+  }
+
+  const kept = runs.map((run) => run.reduce((best, frame) => (frame.sharpness > best.sharpness ? frame : best)));
+  const keptSet = new Set(kept);
+  return { kept, removed: frames.filter((f) => !keptSet.has(f)) };
+}
+
+export interface SelectFrameOptions {
+  windowSeconds?: number; // 対象時刻の前後何秒を候補にするか
+  exclude?: FrameInfo[]; // 既に他のセクションで選んだフレーム
+  minDistance?: number; // excludeとの最小ハミング距離
+}
+
+// 既に選んだフレームとの最小距離（選んだものがなければ64）
+function distanceToChosen(frame: FrameInfo, chosen: FrameInfo[]): number {
+  return chosen.reduce((min, c) => Math.min(min, hammingDistance(c.phash, frame.phash)), 64);
+}
+
+/**
+ * 時刻の前後windowSeconds秒のフレームから最もシャープなものを選ぶ
+ * excludeを指定した場合はそれらとminDistance以上離れたフレームに限る
+ * 範囲内に該当がなければ動画全体から時刻の近い順に探し、それでもなければ最も離れたものを選ぶ
+ */
+export function selectBestFrame(frames: FrameInfo[], targetTime: number, options: SelectFrameOptions = {}): FrameInfo {
+  const { windowSeconds = 120, exclude = [], minDistance = 0 } = options;
+  const distinct = (f: FrameInfo) => distanceToChosen(f, exclude) >= minDistance;
+
+  const candidates = frames.filter(
+    (f) => Math.abs(frameSeconds(f) - targetTime) <= windowSeconds && distinct(f)
+  );
+  if (candidates.length > 0) {
+    return candidates.reduce((best, frame) => (frame.sharpness > best.sharpness ? frame : best));
+  }
+
+  const distinctFrames = frames.filter(distinct);
+  if (distinctFrames.length > 0) {
+    return findNearestFrame(distinctFrames, targetTime);
+  }
+
+  // どのフレームも距離を満たさない（動画全体がほぼ同じ画面）
+  return frames.reduce((best, frame) =>
+    distanceToChosen(frame, exclude) > distanceToChosen(best, exclude) ? frame : best
+  );
+}
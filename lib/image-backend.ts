@@ -0,0 +1,186 @@
+/**
+ * 画像変換バックエンド
+ * - gemini:  Gemini画像生成で編集
+ * - openai:  OpenAI画像編集API
+ * - enhance: sharpによるローカル補正（APIキー不要・外部送信なし・決定的）
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import OpenAI, { toFile } from "openai";
+import { readFileSync, writeFileSync } from "fs";
+import sharp from "sharp";
+
+export const IMAGE_BACKENDS = ["gemini", "openai", "enhance"] as const;
+export type ImageBackendName = (typeof IMAGE_BACKENDS)[number];
+
+export interface ImageBackendOptions {
+  backend?: ImageBackendName;
+  model?: string; // gemini / openai のみ
+}
+
+export interface ImageBackend {
+  readonly name: ImageBackendName;
+  transform(imagePath: string, prompt: string, outputPath: string): Promise<void>;
+}
+
+const DEFAULT_MODELS: Record<Exclude<ImageBackendName, "enhance">, string> = {
+  gemini: "gemini-2.5-flash-image",
+  openai: "gpt-image-1",
+};
+
+export function isImageBackendName(value: string): value is ImageBackendName {
+  return (IMAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+// 引数 > IMAGE_BACKEND > GEMINI_API_KEYがあればgemini、なければenhance
+export function resolveImageBackendName(backend?: ImageBackendName): ImageBackendName {
+  if (backend) return backend;
+  const envBackend = process.env.IMAGE_BACKEND;
+  if (envBackend) {
+    if (!isImageBackendName(envBackend)) {
+      throw new Error(`不明な画像バックエンド: ${envBackend}`);
+    }
+    return envBackend;
+  }
+  return process.env.GEMINI_API_KEY ? "gemini" : "enhance";
+}
+
+function createGeminiBackend(model: string): ImageBackend {
+  const ai = new GoogleGenAI({});
+  return {
+    name: "gemini",
+    async transform(imagePath, prompt, outputPath) {
+      const base64Image = readFileSync(imagePath).toString("base64");
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ text: prompt }, { inlineData: { mimeType: "image/jpeg", data: base64Image } }],
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          writeFileSync(outputPath, Buffer.from(part.inlineData.data, "base64"));
+          return;
+        }
+      }
+      throw new Error("gemini: 画像が生成されませんでした");
+    },
+  };
+}
+
+function createOpenAIBackend(model: string): ImageBackend {
+  const client = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.OPENAI_BASE_URL,
+  });
+  return {
+    name: "openai",
+    async transform(imagePath, prompt, outputPath) {
+      const image = await toFile(readFileSync(imagePath), "frame.jpg", { type: "image/jpeg" });
+      const response = await client.images.edit({ model, image, prompt });
+      const data = response.data?.[0]?.b64_json;
+      if (!data) throw new Error("openai: 画像が生成されませんでした");
+      writeFileSync(outputPath, Buffer.from(data, "base64"));
+    },
+  };
+}
+
+// ===== ローカル補正 =====
+
+const ENHANCE_WIDTH = 1280;
+const ENHANCE_HEIGHT = 720;
+const FRAME_WIDTH = 16;
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+// 自動レベル補正 → 主題に合わせてクロップ → シャープ化 → ブランドカラーの枠
+// プロンプトは使わないため、同じ入力からは常に同じ画像になる
+async function enhanceImage(imagePath: string, outputPath: string): Promise<void> {
+  const color = process.env.IMAGE_BRAND_COLOR || "#2563eb";
+  const label = process.env.IMAGE_BRAND_LABEL;
+
+  const innerWidth = ENHANCE_WIDTH - FRAME_WIDTH * 2;
+  const innerHeight = ENHANCE_HEIGHT - FRAME_WIDTH * 2;
+
+  const pipeline = sharp(imagePath)
+    .normalise()
+    .resize(innerWidth, innerHeight, { fit: "cover", position: sharp.strategy.attention })
+    .sharpen()
+    .extend({
+      top: FRAME_WIDTH,
+      bottom: FRAME_WIDTH,
+      left: FRAME_WIDTH,
+      right: FRAME_WIDTH,
+      background: color,
+    });
+
+  if (label) {
+    const badge = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${ENHANCE_WIDTH}" height="${ENHANCE_HEIGHT}">
+        <rect x="${ENHANCE_WIDTH - FRAME_WIDTH - 240}" y="${ENHANCE_HEIGHT - FRAME_WIDTH - 40}" width="240" height="40" fill="${escapeXml(color)}"/>
+        <text x="${ENHANCE_WIDTH - FRAME_WIDTH - 120}" y="${ENHANCE_HEIGHT - FRAME_WIDTH - 14}" font-family="sans-serif" font-size="18" fill="#ffffff" text-anchor="middle">${escapeXml(label)}</text>
+      </svg>`
+    );
+    pipeline.composite([{ input: badge, top: 0, left: 0 }]);
+  }
+
+  await pipeline.png().toFile(outputPath);
+}
+
+function createEnhanceBackend(): ImageBackend {
+  return {
+    name: "enhance",
+    async transform(imagePath, _prompt, outputPath) {
+      await enhanceImage(imagePath, outputPath);
+    },
+  };
+}
+
+export function createImageBackend(options: ImageBackendOptions = {}): ImageBackend {
+  const name = resolveImageBackendName(options.backend);
+  const model = options.model || process.env.IMAGE_MODEL;
+  switch (name) {
+    case "gemini":
+      return createGeminiBackend(model || DEFAULT_MODELS.gemini);
+    case "openai":
+      return createOpenAIBackend(model || DEFAULT_MODELS.openai);
+    case "enhance":
+      return createEnhanceBackend();
+  }
+}
+
+// セクションの画像変換プロンプト（instruction は再生成時の追加の指示）
+export function sectionImagePrompt(imagePrompt: string, instruction?: string): string {
+  const prompt = `Transform this image to emphasize: ${imagePrompt}. Make it clean, professional, and visually appealing for a blog post. Keep the main subject but enhance the visual presentation.`;
+  return instruction ? `${prompt} Additional instruction: ${instruction}` : prompt;
+}
+
+// 変換の結果
+export interface TransformResult {
+  backend: ImageBackendName; // 実際に使われたバックエンド
+  fallbackError?: string; // 指定したバックエンドで失敗してローカル補正にしたときの理由
+}
+
+/**
+ * 画像を変換し、失敗した場合はローカル補正にフォールバックする
+ * フォールバックしたことは結果の fallbackError で返す（content.json に残し、ジョブ・記事エディタで警告する）
+ */
+export async function transformWithFallback(
+  backend: ImageBackend,
+  imagePath: string,
+  prompt: string,
+  outputPath: string
+): Promise<TransformResult> {
+  try {
+    await backend.transform(imagePath, prompt, outputPath);
+    return { backend: backend.name };
+  } catch (err) {
+    if (backend.name === "enhance") throw err;
+    const fallbackError = `${backend.name}での変換に失敗: ${(err as Error).message}`;
+    console.error(`  警告: ${fallbackError}`);
+    console.error("  ローカル補正（enhance）にフォールバックします");
+    await enhanceImage(imagePath, outputPath);
+    return { backend: "enhance", fallbackError };
+  }
+}
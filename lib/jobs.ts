@@ -0,0 +1,254 @@
+/**
+ * バックグラウンドジョブキュー
+ * ジョブはDBに永続化し、ワーカーが指定の並列数で順に実行する
+ * 出力はジョブごとのログファイルに追記し、SSEクライアントは途中から何度でも接続できる
+ */
+
+import { EventEmitter } from "events";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { randomUUID } from "crypto";
+import {
+  createJob,
+  getActiveJob,
+  getJob,
+  getJobLogPath,
+  getJobsByStatus,
+  getNextQueuedJob,
+  updateJob,
+  updateJobIfStatus,
+  updateProject,
+} from "../db/index.js";
+import type { Job } from "../db/schema.js";
+import { CancelledError, type Emit, type Step } from "./pipeline.js";
+
+export interface JobMessage {
+  type: string;
+  data: string;
+}
+
+export type JobHandler = (job: Job, emit: Emit, signal: AbortSignal) => Promise<void>;
+
+export interface WorkerOptions {
+  handler: JobHandler;
+  concurrency?: number;
+  // true: 再起動で中断されたジョブを再実行 / false: 失敗として記録
+  resumeInterrupted?: boolean;
+}
+
+// 実行中ジョブのライブ出力（接続済みクライアントへの配信用）
+interface LiveJob {
+  history: JobMessage[];
+  events: EventEmitter;
+  // 実行中のみ
+  controller?: AbortController;
+  finished?: Promise<void>;
+}
+
+const liveJobs = new Map<string, LiveJob>();
+
+let worker: Required<WorkerOptions> | null = null;
+let runningCount = 0;
+let draining = false;
+let drainRequested = false;
+
+// 終了を示すメッセージ種別
+export function isTerminalMessage(message: JobMessage): boolean {
+  return message.type === "done" || message.type === "error" || message.type === "cancelled";
+}
+
+// ライブ配信用のエントリを作成（既存のログを履歴として引き継ぐ）
+function ensureLive(jobId: string): LiveJob {
+  let live = liveJobs.get(jobId);
+  if (!live) {
+    live = { history: readJobLog(jobId), events: new EventEmitter() };
+    liveJobs.set(jobId, live);
+  }
+  return live;
+}
+
+function publish(jobId: string, message: JobMessage): void {
+  appendFileSync(getJobLogPath(jobId), JSON.stringify(message) + "\n");
+  const live = liveJobs.get(jobId);
+  if (live) {
+    live.history.push(message);
+    live.events.emit("message", message);
+  }
+}
+
+export class JobConflictError extends Error {
+  constructor(readonly job: Job) {
+    super("このプロジェクトでは既にジョブが実行中です");
+  }
+}
+
+export async function enqueueJob(
+  projectId: string,
+  step: Step,
+  options: Record<string, string> = {}
+): Promise<Job> {
+  const active = await getActiveJob(projectId);
+  if (active) throw new JobConflictError(active);
+
+  const job = await createJob({
+    id: randomUUID(),
+    projectId,
+    step,
+    options,
+    status: "queued",
+    createdAt: new Date(),
+  });
+  ensureLive(job!.id);
+  publish(job!.id, { type: "status", data: "キューに追加されました" });
+
+  processQueue();
+  return job!;
+}
+
+async function runJob(job: Job): Promise<void> {
+  const { handler } = worker!;
+  const live = ensureLive(job.id);
+  const controller = new AbortController();
+  live.controller = controller;
+  await updateJob(job.id, { startedAt: new Date() });
+
+  try {
+    await handler(job, (type, data) => publish(job.id, { type, data }), controller.signal);
+    await updateJob(job.id, { status: "completed", finishedAt: new Date() });
+    publish(job.id, { type: "done", data: "完了" });
+  } catch (err) {
+    if (err instanceof CancelledError) {
+      await updateJob(job.id, { status: "cancelled", finishedAt: new Date() });
+      await updateProject(job.projectId, { status: "cancelled", errorMessage: null });
+      publish(job.id, { type: "cancelled", data: err.message });
+      return;
+    }
+
+    const message = (err as Error).message;
+    await updateJob(job.id, { status: "failed", errorMessage: message, finishedAt: new Date() });
+    await updateProject(job.projectId, { status: "error", errorMessage: message });
+    publish(job.id, { type: "error", data: message });
+  } finally {
+    liveJobs.delete(job.id);
+  }
+}
+
+// 空きがある限り待機中ジョブを取り出して実行
+async function processQueue(): Promise<void> {
+  // 同じジョブを二重に取り出さないよう、取り出しは一度に一つの呼び出しだけ行う
+  if (!worker) return;
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+  draining = true;
+  drainRequested = false;
+
+  try {
+    while (runningCount < worker.concurrency) {
+      const job = await getNextQueuedJob();
+      if (!job) break;
+
+      // 取り出す間にキャンセルされたジョブは実行しない
+      if (!(await updateJobIfStatus(job.id, "queued", { status: "running" }))) continue;
+      runningCount++;
+      const finished = runJob(job).finally(() => {
+        runningCount--;
+        processQueue();
+      });
+      const live = liveJobs.get(job.id);
+      if (live) live.finished = finished;
+    }
+  } finally {
+    draining = false;
+  }
+
+  // 取り出し中に追加・終了したジョブがあれば再確認
+  if (drainRequested) processQueue();
+}
+
+const DEFAULT_CONCURRENCY = 1;
+
+export async function startWorker(options: WorkerOptions): Promise<void> {
+  // JOB_CONCURRENCY=0 や数値でない値でワーカーが0・NaN個にならないようにする
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  worker = {
+    resumeInterrupted: false,
+    ...options,
+    concurrency: Number.isFinite(concurrency) ? Math.max(1, Math.floor(concurrency)) : DEFAULT_CONCURRENCY,
+  };
+
+  // 前回の実行中に中断されたジョブ
+  for (const job of await getJobsByStatus("running")) {
+    if (worker.resumeInterrupted) {
+      await updateJob(job.id, { status: "queued", startedAt: null });
+      publish(job.id, { type: "status", data: "サーバー再起動のため再実行します" });
+    } else {
+      const message = "サーバー再起動により中断されました";
+      await updateJob(job.id, { status: "failed", errorMessage: message, finishedAt: new Date() });
+      await updateProject(job.projectId, { status: "error", errorMessage: message });
+      publish(job.id, { type: "error", data: message });
+    }
+  }
+
+  for (const job of await getJobsByStatus("queued")) {
+    ensureLive(job.id);
+  }
+
+  await processQueue();
+}
+
+/**
+ * ジョブをキャンセルする
+ * 待機中ならそのまま取り消し、実行中ならプロセスツリーを停止して終了を待つ
+ * キャンセル対象でなければfalseを返す
+ */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  let job = await getJob(jobId);
+  if (!job) return false;
+
+  if (job.status === "queued") {
+    if (await updateJobIfStatus(job.id, "queued", { status: "cancelled", finishedAt: new Date() })) {
+      publish(job.id, { type: "cancelled", data: "キャンセルされました" });
+      liveJobs.delete(job.id);
+      return true;
+    }
+    // 先にワーカーが取り出した
+    job = (await getJob(jobId))!;
+  }
+
+  const live = liveJobs.get(job.id);
+  if (job.status !== "running" || !live?.controller) return false;
+
+  publish(job.id, { type: "status", data: "キャンセル中..." });
+  live.controller.abort();
+  await live.finished;
+  return true;
+}
+
+/**
+ * ジョブの出力を購読する
+ * これまでの出力をすべて再生した後、終了するまでライブ出力を配信する
+ * 戻り値は購読解除関数
+ */
+export function subscribeJob(jobId: string, listener: (message: JobMessage) => void): () => void {
+  const live = liveJobs.get(jobId);
+  if (!live) {
+    // 終了済みのジョブはログファイルから再生
+    readJobLog(jobId).forEach(listener);
+    return () => {};
+  }
+
+  // 同期的に履歴を流してから購読するので取りこぼしはない
+  live.history.forEach(listener);
+  live.events.on("message", listener);
+  return () => live.events.off("message", listener);
+}
+
+export function readJobLog(jobId: string): JobMessage[] {
+  const logPath = getJobLogPath(jobId);
+  if (!existsSync(logPath)) return [];
+  return readFileSync(logPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as JobMessage);
+}
@@ -0,0 +1,80 @@
+/**
+ * 文字起こし・記事の言語
+ * 言語コードはwhisperと同じISO 639-1（ja, en 等）。"auto" は自動判定
+ */
+
+export const AUTO_LANGUAGE = "auto";
+
+// 文字起こしの言語が分からない場合の記事の言語
+export const DEFAULT_ARTICLE_LANGUAGE = "ja";
+
+// プロンプトで使う言語名（一覧にない言語は言語コードのまま伝える）
+const LANGUAGE_NAMES: Record<string, string> = {
+  ja: "日本語",
+  en: "英語",
+  zh: "中国語",
+  ko: "韓国語",
+  es: "スペイン語",
+  fr: "フランス語",
+  de: "ドイツ語",
+  it: "イタリア語",
+  pt: "ポルトガル語",
+  ru: "ロシア語",
+  nl: "オランダ語",
+  vi: "ベトナム語",
+  th: "タイ語",
+  id: "インドネシア語",
+};
+
+// 単語を空白で区切らず、分量を文字数で数える言語
+const CHARACTER_COUNTED_LANGUAGES = new Set(["ja", "zh", "yue", "th"]);
+
+export function isLanguageCode(value: string): boolean {
+  return /^[a-z]{2,3}$/.test(value);
+}
+
+// "auto" または言語コード
+export function isLanguageSetting(value: string): boolean {
+  return value === AUTO_LANGUAGE || isLanguageCode(value);
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? `言語コード ${code} の言語`;
+}
+
+export function countsCharacters(code: string): boolean {
+  return CHARACTER_COUNTED_LANGUAGES.has(code);
+}
+
+// 文字起こしAPIが返す英語の言語名（OpenAIの verbose_json は "japanese" 等を返す）
+const LANGUAGE_CODES_BY_NAME: Record<string, string> = {
+  japanese: "ja",
+  english: "en",
+  chinese: "zh",
+  korean: "ko",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  portuguese: "pt",
+  russian: "ru",
+  dutch: "nl",
+  vietnamese: "vi",
+  thai: "th",
+  indonesian: "id",
+  cantonese: "yue",
+};
+
+// 言語コードまたは英語の言語名を言語コードにする（判別できなければnull）
+export function normalizeLanguage(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const lower = value.trim().toLowerCase();
+  if (isLanguageCode(lower)) return lower;
+  return LANGUAGE_CODES_BY_NAME[lower] ?? null;
+}
+
+// whisper-cli の標準エラー出力 "whisper_full_with_state: auto-detected language: en (p = 0.97)"
+export function parseWhisperDetectedLanguage(line: string): string | null {
+  const match = line.match(/auto-detected language:\s*([a-z]{2,3})\b/);
+  return match ? match[1] : null;
+}
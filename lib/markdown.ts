@@ -0,0 +1,93 @@
+/**
+ * GeneratedContent をMarkdown（YAMLフロントマター付き）に変換する
+ * Hugo / Astro などの静的サイトジェネレーターにそのまま置ける形式
+ */
+
+import { basename } from "path";
+import type { GeneratedContent } from "./content-schema.js";
+import { sanitizeHtml } from "./sanitize.js";
+import { secondsToTimestamp } from "./transcript.js";
+import { videoWatchUrl, type VideoEmbed } from "./video-embed.js";
+
+export interface MarkdownOptions {
+  // 画像の参照先（静的ディレクトリ内のパスやURL）。既定はMarkdownからの相対パス output
+  imageBase?: string;
+  source?: string; // 元の動画ファイル名
+  date?: Date;
+  video?: VideoEmbed; // YouTube / Vimeo なら時刻をその時刻から開くリンクにする
+}
+
+export const DEFAULT_IMAGE_BASE = "output";
+
+// YAMLの文字列（JSONの文字列リテラルはYAMLのダブルクォート文字列として有効）
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// 見出しなどのテキストがHTML・リンク記法として解釈されないようにする
+function markdownText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\s*\n\s*/g, " ");
+}
+
+function imageUrl(imageBase: string, image: string): string {
+  return `${imageBase.replace(/\/+$/, "")}/${basename(image)}`;
+}
+
+// 本文のよく使われるHTMLタグをMarkdownに変換（それ以外のタグはMarkdown中のHTMLとしてそのまま残す）
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "  \n")
+    .replace(/<\/?(strong|b)>/gi, "**")
+    .replace(/<\/?(em|i)>/gi, "*")
+    .replace(/<\/?code>/gi, "`")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)")
+    .replace(/<h[3-6][^>]*>([\s\S]*?)<\/h[3-6]>/gi, "\n\n### $1\n\n")
+    .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let n = 0;
+      return "\n\n" + items.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_m, item: string) => `${++n}. ${item.trim()}\n`) + "\n";
+    })
+    .replace(/<ul[^>]*>([\s\S]*?)<\/ul>/gi, (_, items: string) =>
+      "\n\n" + items.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, (_m, item: string) => `- ${item.trim()}\n`) + "\n"
+    )
+    .replace(/<p[^>]*>([\s\S]*?)<\/p>/gi, "\n\n$1\n\n")
+    .replace(/[ \t]*\n\s*\n\s*/g, "\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function buildMarkdown(content: GeneratedContent, images: string[], options: MarkdownOptions = {}): string {
+  const imageBase = options.imageBase ?? DEFAULT_IMAGE_BASE;
+
+  const frontMatter = [
+    "---",
+    `title: ${yamlString(content.title)}`,
+    `date: ${formatDate(options.date ?? new Date())}`,
+    `type: ${content.type}`,
+    ...(content.language ? [`lang: ${content.language}`] : []),
+    ...(options.source ? [`source: ${yamlString(options.source)}`] : []),
+    ...(options.video && options.video.kind !== "file" ? [`video: ${yamlString(options.video.url)}`] : []),
+    ...(content.tags && content.tags.length > 0
+      ? ["tags:", ...content.tags.map((tag) => `  - ${yamlString(tag)}`)]
+      : ["tags: []"]),
+    ...(images[0] ? [`cover: ${yamlString(imageUrl(imageBase, images[0]))}`] : []),
+    "---",
+  ].join("\n");
+
+  const sections = content.sections
+    .map((section, i) => {
+      const heading = markdownText(section.heading);
+      const lines = [`## ${heading}`, ""];
+      if (images[i]) lines.push(`![${heading.replace(/[[\]]/g, "\\$&")}](${imageUrl(imageBase, images[i])})`, "");
+      const timestamp = secondsToTimestamp(section.startTime);
+      const watchUrl = options.video && videoWatchUrl(options.video, section.startTime);
+      lines.push(watchUrl ? `*[${timestamp}](${watchUrl})*` : `*${timestamp}*`, "", htmlToMarkdown(sanitizeHtml(section.body)));
+      return lines.join("\n");
+    })
+    .join("\n\n");
+
+  return `${frontMatter}\n\n${sections}\n`;
+}
@@ -0,0 +1,555 @@
+/**
+ * パイプラインステップの実行
+ * 各ステップのスクリプトを子プロセスで起動し、プロジェクトの状態を更新する
+ */
+
+import { spawn } from "child_process";
+import { existsSync, readdirSync, readFileSync, rmSync, statSync } from "fs";
+import { constants as osConstants } from "os";
+import { join, dirname, sep } from "path";
+import { fileURLToPath } from "url";
+import { getProject, getProjectDir, updateProject } from "../db/index.js";
+import type { Job, Project } from "../db/schema.js";
+import { CHAPTERS_TEXT_FILE, CHAPTERS_VTT_FILE } from "./chapters.js";
+import { lineSplitter } from "./command.js";
+import { CONTENT_FILE, readContentFile } from "./content-schema.js";
+import { parseProgressLine, PROGRESS_ENV, type ProgressEvent } from "./progress.js";
+import { SOCIAL_FILE } from "./social.js";
+import { readVttLanguage } from "./transcript.js";
+
+export const STEPS = ["transcribe", "extract", "generate", "render", "social", "all"] as const;
+export type Step = Job["step"];
+
+// 1セクションだけの再生成（POST /api/projects/:id/sections/:number/:target で追加する）
+export const SECTION_STEPS = { text: "section-text", image: "section-image" } as const;
+export type SectionTarget = keyof typeof SECTION_STEPS;
+
+export type Emit = (type: string, data: string) => void;
+
+type SubStep = Exclude<Step, "all">;
+
+// SSEで送る進捗（data はこれをJSON文字列化したもの）
+export interface JobProgress {
+  percent: number; // ジョブ全体での進捗（0〜100）
+  eta: number | null; // 残り秒数の見積もり
+  step: SubStep;
+  phase: string;
+  label?: string;
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super("キャンセルされました");
+  }
+}
+
+// SIGTERMで終了しない場合にSIGKILLを送るまでの猶予
+const KILL_TIMEOUT_MS = 5000;
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+export function isStep(value: string): value is Step {
+  return (STEPS as readonly string[]).includes(value);
+}
+
+// 動画ではなく保存済みの生成結果（content.json）から実行するステップ
+export function requiresContent(step: Step): boolean {
+  return step === "render" || step === "social" || step === "section-text" || step === "section-image";
+}
+
+export function isSectionTarget(value: string): value is SectionTarget {
+  return Object.hasOwn(SECTION_STEPS, value);
+}
+
+// プロセスグループごと終了させる（ffmpeg・whisper-cliなどの孫プロセスも含む）
+function killProcessTree(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // 既に終了している
+  }
+}
+
+// 実行中のスクリプトのプロセスグループ（detached のため、Ctrl-C やサーバーの停止のシグナルが届かない）
+const runningScripts = new Set<number>();
+let shutdownHandlerInstalled = false;
+let shuttingDown = false;
+
+/**
+ * SIGINT / SIGTERM で実行中のスクリプトをプロセスグループごと止めてから終了する
+ * ジョブは実行中のまま残し、再起動時に中断されたジョブとして扱う
+ */
+function installShutdownHandler(): void {
+  if (shutdownHandlerInstalled) return;
+  shutdownHandlerInstalled = true;
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    shuttingDown = true;
+    for (const pid of runningScripts) killProcessTree(pid, "SIGTERM");
+    const deadline = Date.now() + KILL_TIMEOUT_MS;
+    const timer = setInterval(() => {
+      if (runningScripts.size > 0 && Date.now() < deadline) return;
+      clearInterval(timer);
+      for (const pid of runningScripts) killProcessTree(pid, "SIGKILL");
+      process.exit(128 + osConstants.signals[signal]);
+    }, 100);
+  };
+  // 2回目のシグナルは既定の動作（すぐに終了）
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+// スクリプト実行（ストリーミング出力・進捗付き）
+function runScript(
+  script: string,
+  args: string[],
+  onOutput: (data: string) => void,
+  signal?: AbortSignal,
+  onProgress?: (event: ProgressEvent) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+
+    // detached: 子プロセスを新しいプロセスグループのリーダーにする
+    const proc = spawn("npx", ["tsx", script, ...args], {
+      cwd: ROOT_DIR,
+      detached: true,
+      env: { ...process.env, [PROGRESS_ENV]: "1" },
+    });
+    if (proc.pid) {
+      runningScripts.add(proc.pid);
+      installShutdownHandler();
+    }
+
+    let killTimer: NodeJS.Timeout | undefined;
+    const onAbort = () => {
+      if (!proc.pid) return;
+      killProcessTree(proc.pid, "SIGTERM");
+      killTimer = setTimeout(() => killProcessTree(proc.pid!, "SIGKILL"), KILL_TIMEOUT_MS);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // 標準出力は行単位で読み、進捗行だけを取り除く
+    const stdout = lineSplitter((line) => {
+      const event = parseProgressLine(line);
+      if (event) onProgress?.(event);
+      else onOutput(line + "\n");
+    });
+    proc.stdout.on("data", stdout.push);
+    proc.stderr.on("data", (data) => onOutput(data.toString()));
+
+    proc.on("close", (code) => {
+      stdout.flush();
+      signal?.removeEventListener("abort", onAbort);
+      clearTimeout(killTimer);
+      if (proc.pid) runningScripts.delete(proc.pid);
+      if (shuttingDown) return; // 終了処理中はジョブの状態を更新しない
+      if (signal?.aborted) reject(new CancelledError());
+      else if (code === 0) resolve();
+      else reject(new Error(`${script} failed with code ${code}`));
+    });
+    proc.on("error", reject);
+  });
+}
+
+/**
+ * ステップが書き込むファイル（ディレクトリは中のファイルすべて）のまとまり
+ * 1つでも書き換えられていれば、まとまり全体が前回の結果として使えなくなったものとみなす
+ */
+const ARTIFACT_GROUPS: Partial<Record<SubStep, string[][]>> = {
+  transcribe: [
+    ["video.wav"],
+    ["video.vtt", "video.json"], // video.json は faster-whisper の出力
+    ["video.upload.mp3"], // OpenAI互換APIへのアップロード用
+  ],
+  extract: [["frames"]],
+  generate: [["output", "video.html", "video.md", CONTENT_FILE, CHAPTERS_VTT_FILE, CHAPTERS_TEXT_FILE]],
+};
+
+// ステップ開始前のファイルの状態（プロジェクトディレクトリからの相対パス → 更新時刻とサイズ）
+type ArtifactSnapshot = Map<string, string>;
+
+function listArtifactFiles(projectDir: string, path: string): string[] {
+  const fullPath = join(projectDir, path);
+  if (!existsSync(fullPath)) return [];
+  if (!statSync(fullPath).isDirectory()) return [path];
+  return readdirSync(fullPath).flatMap((file) => listArtifactFiles(projectDir, join(path, file)));
+}
+
+function fileSignature(path: string): string {
+  const stat = statSync(path);
+  return `${stat.mtimeMs}:${stat.size}`;
+}
+
+function snapshotArtifacts(projectDir: string, step: SubStep): ArtifactSnapshot {
+  const snapshot: ArtifactSnapshot = new Map();
+  for (const path of (ARTIFACT_GROUPS[step] ?? []).flat().flatMap((p) => listArtifactFiles(projectDir, p))) {
+    snapshot.set(path, fileSignature(join(projectDir, path)));
+  }
+  return snapshot;
+}
+
+/**
+ * 途中で止めたステップが作ったファイルだけを削除する
+ * 前回の結果が書き換えられていたまとまりは、まとまりごと削除して false を返す（前回の結果が残っていれば true）
+ */
+function removeCancelledArtifacts(projectDir: string, group: string[], snapshot: ArtifactSnapshot): boolean {
+  const files = group.flatMap((path) => listArtifactFiles(projectDir, path));
+  const previousFiles = [...snapshot.keys()].filter((path) => group.some((p) => path === p || path.startsWith(p + sep)));
+  const intact =
+    previousFiles.length > 0 &&
+    previousFiles.every((path) => files.includes(path) && fileSignature(join(projectDir, path)) === snapshot.get(path));
+
+  for (const path of files) {
+    if (!intact || !snapshot.has(path)) rmSync(join(projectDir, path), { force: true });
+  }
+  return intact;
+}
+
+// 途中で止めたステップの生成物を削除し、前回の結果が残っていなければ完了状態を戻す
+async function cleanupPartialArtifacts(projectId: string, step: SubStep, snapshot: ArtifactSnapshot): Promise<void> {
+  const projectDir = getProjectDir(projectId);
+  const kept = (ARTIFACT_GROUPS[step] ?? []).map((group) => removeCancelledArtifacts(projectDir, group, snapshot));
+
+  switch (step) {
+    case "transcribe": {
+      const [wavKept, vttKept] = kept;
+      if (!wavKept) await updateProject(projectId, { wavPath: null });
+      if (!vttKept) {
+        await updateProject(projectId, {
+          transcribeCompleted: false,
+          vttPath: null,
+          detectedLanguage: null,
+          transcriptSource: null,
+        });
+      }
+      break;
+    }
+    case "extract":
+      if (!kept[0]) await updateProject(projectId, { extractCompleted: false });
+      break;
+    case "generate":
+      if (!kept[0]) {
+        await updateProject(projectId, {
+          generateCompleted: false,
+          generateStale: false,
+          htmlPath: null,
+          markdownPath: null,
+          contentPath: null,
+        });
+      }
+      break;
+    case "render":
+    case "social": // social.json も最後に書き込む
+    case "section-text":
+    case "section-image":
+      // content.json は最後に書き込むので、途中で止めても元のまま
+      break;
+  }
+}
+
+// 「全処理」での各ステップの進捗範囲（%）
+const ALL_STEP_RANGES: Partial<Record<SubStep, [number, number]>> = {
+  transcribe: [0, 45],
+  extract: [45, 60],
+  generate: [60, 100],
+};
+
+// スクリプトの進捗をジョブ全体の進捗・残り時間に換算して送る
+function createJobProgress(step: Step, emit: Emit) {
+  const startedAt = Date.now();
+  return (subStep: SubStep) =>
+    (event: ProgressEvent): void => {
+      const [from, to] = (step === "all" && ALL_STEP_RANGES[subStep]) || [0, 100];
+      const percent = Math.round((from + ((to - from) * event.percent) / 100) * 10) / 10;
+      const elapsed = (Date.now() - startedAt) / 1000;
+      const eta = percent > 0 && percent < 100 ? Math.round((elapsed * (100 - percent)) / percent) : null;
+
+      const progress: JobProgress = { percent, eta, step: subStep, phase: event.phase, label: event.label };
+      emit("progress", JSON.stringify(progress));
+    };
+}
+
+// transcribe.ts に渡す設定（実行時の指定 > プロジェクト設定）
+function transcribeOptions(project: Project, overrides: Record<string, string> = {}): string[] {
+  const args: string[] = [];
+  const language = overrides.language || project.transcriptionLanguage;
+  const backend = overrides.transcriptionBackend || project.transcriptionBackend;
+  const model = overrides.transcriptionModel || project.transcriptionModel;
+  if (language) args.push("--language", language);
+  if (backend) args.push("--backend", backend);
+  if (model) args.push("--model", model);
+  return args;
+}
+
+// 文字起こしで判定した言語（VTTのヘッダーに記録されている）
+function readTranscriptLanguage(vttPath: string): string | null {
+  return existsSync(vttPath) ? readVttLanguage(readFileSync(vttPath, "utf-8")) : null;
+}
+
+// extract-frames.ts に渡す設定
+function extractOptions(overrides: Record<string, string> = {}): string[] {
+  const args: string[] = [];
+  if (overrides.extractMode) args.push("--mode", overrides.extractMode);
+  if (overrides.sceneThreshold) args.push("--scene-threshold", overrides.sceneThreshold);
+  if (overrides.minFrames) args.push("--min-frames", overrides.minFrames);
+  if (overrides.maxFrames) args.push("--max-frames", overrides.maxFrames);
+  if (overrides.dedupThreshold) args.push("--dedup-threshold", overrides.dedupThreshold);
+  return args;
+}
+
+// 記事に埋め込む動画（プロジェクト設定。HTMLと同じディレクトリの video.mp4 または YouTube / Vimeo のURL）
+function videoOption(project: Project): string | null {
+  if (project.videoEmbed === "file") return "video.mp4";
+  if (project.videoEmbed === "url" && project.videoUrl) return project.videoUrl;
+  return null;
+}
+
+// generate-html.ts に渡す設定（実行時の指定 > プロジェクト設定）
+function generateOptions(project: Project, overrides: Record<string, string> = {}): string[] {
+  const args: string[] = [];
+  const provider = overrides.provider || project.textProvider;
+  const model = overrides.model || project.textModel;
+  const imageBackend = overrides.imageBackend || project.imageBackend;
+  const theme = overrides.theme || project.theme;
+  const articleLanguage = overrides.articleLanguage || project.articleLanguage;
+  if (provider) args.push("--provider", provider);
+  if (model) args.push("--model", model);
+  if (imageBackend) args.push("--image-backend", imageBackend);
+  if (theme) args.push("--theme", theme);
+  if (articleLanguage) args.push("--article-language", articleLanguage);
+  const video = videoOption(project);
+  if (video) args.push("--video", video);
+  if (overrides.minFrameDistance) args.push("--min-frame-distance", overrides.minFrameDistance);
+  // 利用者が入力した値は "-" で始まってもオプションとして解釈されないように = でつなぐ
+  if (overrides.imageBase) args.push(`--image-base=${overrides.imageBase}`);
+  args.push(`--source=${project.name}`);
+
+  // 記事の構成（未設定ならスクリプト側で自動決定）
+  const sections = overrides.sections || project.sectionCount;
+  const sectionWords = overrides.sectionWords || project.sectionWords;
+  const totalWords = overrides.totalWords || project.totalWords;
+  if (sections) args.push("--sections", String(sections));
+  if (sectionWords) args.push("--section-words", String(sectionWords));
+  if (totalWords) args.push("--total-words", String(totalWords));
+  return args;
+}
+
+// render.ts に渡す設定（実行時の指定 > プロジェクト設定。画像パスの基点は生成時の値を引き継ぐ）
+function renderOptions(project: Project, overrides: Record<string, string> = {}): string[] {
+  const args: string[] = [];
+  const theme = overrides.theme || project.theme;
+  if (theme) args.push("--theme", theme);
+  if (overrides.imageBase) args.push(`--image-base=${overrides.imageBase}`);
+  args.push("--video", videoOption(project) ?? "none");
+  return args;
+}
+
+// generate-social.ts に渡す設定（実行時の指定 > プロジェクト設定）
+function socialOptions(project: Project, overrides: Record<string, string> = {}): string[] {
+  const args: string[] = [];
+  const provider = overrides.provider || project.textProvider;
+  const model = overrides.model || project.textModel;
+  if (provider) args.push("--provider", provider);
+  if (model) args.push("--model", model);
+  return args;
+}
+
+// regenerate-section.ts に渡す設定（実行時の指定 > プロジェクト設定）
+function regenerateSectionOptions(project: Project, step: Step, overrides: Record<string, string> = {}): string[] {
+  const args = [overrides.section, step === SECTION_STEPS.text ? "--text" : "--image"];
+  const theme = overrides.theme || project.theme;
+  if (theme) args.push("--theme", theme);
+  // 指示は "-" で始まってもオプションとして解釈されないように = でつなぐ
+  if (overrides.instruction) args.push(`--instruction=${overrides.instruction}`);
+  if (step === SECTION_STEPS.text) {
+    const provider = overrides.provider || project.textProvider;
+    const model = overrides.model || project.textModel;
+    if (provider) args.push("--provider", provider);
+    if (model) args.push("--model", model);
+  } else {
+    const imageBackend = overrides.imageBackend || project.imageBackend;
+    if (imageBackend) args.push("--image-backend", imageBackend);
+    if (overrides.frame) args.push("--frame", overrides.frame);
+  }
+  return args;
+}
+
+// 画像バックエンドで変換できずローカル補正にしたセクションを警告する（section は再生成したセクション番号）
+function reportImageFallbacks(projectDir: string, emit: Emit, section?: number): void {
+  const file = readContentFile(projectDir);
+  file.sections.forEach((assets, i) => {
+    if (!assets.imageFallback || (section !== undefined && section !== i + 1)) return;
+    emit("status", `警告: セクション${i + 1}の画像はローカル補正（enhance）にしました（${assets.imageFallback}）`);
+  });
+}
+
+export async function runStep(job: Job, emit: Emit, signal?: AbortSignal): Promise<void> {
+  const id = job.projectId;
+  const project = await getProject(id);
+  if (!project) throw new Error("プロジェクトが見つかりません");
+
+  const projectDir = getProjectDir(id);
+  const videoPath = join(projectDir, "video.mp4");
+  const vttPath = join(projectDir, "video.vtt");
+  const framesDir = join(projectDir, "frames");
+
+  // 再描画・SNS投稿の生成・セクションの再生成は保存済みの生成結果を使う
+  if (requiresContent(job.step)) {
+    if (!existsSync(join(projectDir, CONTENT_FILE))) throw new Error("生成結果（content.json）がありません");
+  } else if (!existsSync(videoPath)) {
+    throw new Error("動画ファイルが見つかりません");
+  }
+
+  const output = (data: string) => emit("output", data);
+  const progress = createJobProgress(job.step, emit);
+  const transcribeArgs = [videoPath, ...transcribeOptions(project, job.options ?? {})];
+  const extractArgs = [videoPath, "100", ...extractOptions(job.options ?? {})];
+  const generateArgs = [vttPath, framesDir, ...generateOptions(project, job.options ?? {})];
+  const renderArgs = [projectDir, ...renderOptions(project, job.options ?? {})];
+  const socialArgs = [projectDir, ...socialOptions(project, job.options ?? {})];
+  const sectionArgs = [projectDir, ...regenerateSectionOptions(project, job.step, job.options ?? {})];
+
+  // キャンセル時に後片付けする実行中のステップと、その開始前のファイルの状態
+  let current: SubStep | null = null;
+  let snapshot: ArtifactSnapshot = new Map();
+  const startSubStep = (step: SubStep) => {
+    current = step;
+    snapshot = snapshotArtifacts(projectDir, step);
+  };
+
+  try {
+    switch (job.step) {
+      case "transcribe":
+        startSubStep("transcribe");
+        await updateProject(id, { status: "transcribing" });
+        emit("status", "文字起こし開始...");
+        await runScript("transcribe.ts", transcribeArgs, output, signal, progress("transcribe"));
+        await updateProject(id, {
+          transcribeCompleted: true,
+          vttPath: "video.vtt",
+          wavPath: "video.wav",
+          detectedLanguage: readTranscriptLanguage(vttPath),
+          transcriptSource: "transcribe",
+          generateStale: project.generateCompleted,
+          status: "pending",
+        });
+        emit("status", "文字起こし完了");
+        break;
+
+      case "extract":
+        startSubStep("extract");
+        await updateProject(id, { status: "extracting" });
+        emit("status", "フレーム抽出開始...");
+        await runScript("extract-frames.ts", extractArgs, output, signal, progress("extract"));
+        await updateProject(id, {
+          extractCompleted: true,
+          status: "pending",
+        });
+        emit("status", "フレーム抽出完了");
+        break;
+
+      case "generate":
+        startSubStep("generate");
+        await updateProject(id, { status: "generating" });
+        emit("status", "HTML生成開始...");
+        await runScript("generate-html.ts", generateArgs, output, signal, progress("generate"));
+        await updateProject(id, {
+          generateCompleted: true,
+          htmlPath: "video.html",
+          markdownPath: "video.md",
+          contentPath: CONTENT_FILE,
+          generateStale: false,
+          status: "completed",
+        });
+        reportImageFallbacks(projectDir, emit);
+        emit("status", "HTML生成完了");
+        break;
+
+      case "render":
+        startSubStep("render");
+        await updateProject(id, { status: "rendering" });
+        emit("status", "再描画開始...");
+        await runScript("render.ts", renderArgs, output, signal, progress("render"));
+        await updateProject(id, {
+          htmlPath: "video.html",
+          markdownPath: "video.md",
+          status: "completed",
+        });
+        emit("status", "再描画完了");
+        break;
+
+      case "social":
+        startSubStep("social");
+        await updateProject(id, { status: "generating" });
+        emit("status", "SNS投稿の生成開始...");
+        await runScript("generate-social.ts", socialArgs, output, signal, progress("social"));
+        await updateProject(id, { socialPath: SOCIAL_FILE, status: "completed" });
+        emit("status", "SNS投稿の生成完了");
+        break;
+
+      case "section-text":
+      case "section-image": {
+        const target = job.step === SECTION_STEPS.text ? "本文" : "画像";
+        startSubStep(job.step);
+        await updateProject(id, { status: "generating" });
+        emit("status", `セクション${job.options?.section}の${target}の再生成開始...`);
+        await runScript("regenerate-section.ts", sectionArgs, output, signal, progress(job.step));
+        await updateProject(id, {
+          htmlPath: "video.html",
+          markdownPath: "video.md",
+          status: "completed",
+        });
+        if (job.step === SECTION_STEPS.image) reportImageFallbacks(projectDir, emit, Number(job.options?.section));
+        emit("status", `セクション${job.options?.section}の${target}の再生成完了`);
+        break;
+      }
+
+      case "all":
+        // 全ステップ実行（字幕を取り込み済みなら文字起こしは行わない）
+        if (project.transcriptSource === "captions" && project.transcribeCompleted && existsSync(vttPath)) {
+          emit("status", "処理開始: 取り込んだ字幕を使用します");
+        } else {
+          startSubStep("transcribe");
+          await updateProject(id, { status: "transcribing" });
+          emit("status", "処理開始: 文字起こし...");
+          await runScript("transcribe.ts", transcribeArgs, output, signal, progress("transcribe"));
+          await updateProject(id, {
+            transcribeCompleted: true,
+            vttPath: "video.vtt",
+            wavPath: "video.wav",
+            detectedLanguage: readTranscriptLanguage(vttPath),
+            transcriptSource: "transcribe",
+          });
+        }
+
+        startSubStep("extract");
+        await updateProject(id, { status: "extracting" });
+        emit("status", "処理中: フレーム抽出...");
+        await runScript("extract-frames.ts", extractArgs, output, signal, progress("extract"));
+        await updateProject(id, { extractCompleted: true });
+
+        startSubStep("generate");
+        await updateProject(id, { status: "generating" });
+        emit("status", "処理中: HTML生成...");
+        await runScript("generate-html.ts", generateArgs, output, signal, progress("generate"));
+        await updateProject(id, {
+          generateCompleted: true,
+          htmlPath: "video.html",
+          markdownPath: "video.md",
+          contentPath: CONTENT_FILE,
+          generateStale: false,
+          status: "completed",
+        });
+        reportImageFallbacks(projectDir, emit);
+        emit("status", "全処理完了！");
+        break;
+    }
+  } catch (err) {
+    if (err instanceof CancelledError && current) {
+      emit("status", "中間ファイルを削除しています...");
+      await cleanupPartialArtifacts(id, current, snapshot);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * ステップスクリプトの進捗プロトコル
+ * スクリプトは標準出力に `@@progress {...}` 形式の行を書き、サーバー側で解析する
+ * VIDEO_TO_POST_PROGRESS=1 のときだけ出力する（CLIから直接実行したときは出さない）
+ */
+
+export const PROGRESS_PREFIX = "@@progress ";
+export const PROGRESS_ENV = "VIDEO_TO_POST_PROGRESS";
+
+export interface ProgressEvent {
+  percent: number; // スクリプト全体での進捗（0〜100）
+  phase: string; // サブステップ名（audio, transcribe, frames, ...）
+  label?: string; // 表示用の説明
+}
+
+/**
+ * フェーズごとの重みから、スクリプト全体の進捗を報告する関数を作る
+ * 例: createProgressReporter({ audio: 1, transcribe: 9 })
+ *     report("transcribe", 0.5) → 55%
+ */
+export function createProgressReporter(weights: Record<string, number>) {
+  const phases = Object.keys(weights);
+  const total = phases.reduce((sum, p) => sum + weights[p], 0);
+  const enabled = process.env[PROGRESS_ENV] === "1";
+  let lastPercent = -1;
+  let lastPhase = "";
+
+  return (phase: string, fraction: number, label?: string): void => {
+    if (!enabled) return;
+
+    const before = phases.slice(0, phases.indexOf(phase)).reduce((sum, p) => sum + weights[p], 0);
+    const clamped = Math.min(Math.max(fraction, 0), 1);
+    const percent = Math.round(((before + weights[phase] * clamped) / total) * 1000) / 10;
+
+    // 変化が小さい場合は出力しない
+    if (phase === lastPhase && Math.abs(percent - lastPercent) < 0.5 && clamped < 1) return;
+    lastPercent = percent;
+    lastPhase = phase;
+
+    const event: ProgressEvent = { percent, phase, label };
+    process.stdout.write(PROGRESS_PREFIX + JSON.stringify(event) + "\n");
+  };
+}
+
+export function parseProgressLine(line: string): ProgressEvent | null {
+  if (!line.startsWith(PROGRESS_PREFIX)) return null;
+  try {
+    const event = JSON.parse(line.slice(PROGRESS_PREFIX.length));
+    if (typeof event.percent !== "number" || typeof event.phase !== "string") return null;
+    return event as ProgressEvent;
+  } catch {
+    return null;
+  }
+}
+
+// ffmpeg -progress の出力から処理済みの秒数を取り出す（out_time_us=12345678）
+export function parseFfmpegProgressTime(line: string): number | null {
+  const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+  if (!match) return null;
+  // out_time_ms も実際はマイクロ秒
+  return parseInt(match[1], 10) / 1_000_000;
+}
+
+// whisper-cli -pp の出力から進捗率を取り出す（whisper_print_progress_callback: progress =  42%）
+export function parseWhisperProgress(line: string): number | null {
+  const match = line.match(/progress\s*=\s*(\d+)%/);
+  if (!match) return null;
+  return parseInt(match[1], 10) / 100;
+}
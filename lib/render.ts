@@ -0,0 +1,84 @@
+/**
+ * 保存済みの生成結果（content.json）からHTML・Markdown・チャプターを出力する
+ * AI・画像生成を使わないので、テーマの変更や誤字の修正をすぐに反映できる
+ */
+
+import { existsSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  buildChapters,
+  chaptersToVtt,
+  fitYoutubeChapters,
+  formatYoutubeChapters,
+  CHAPTERS_TEXT_FILE,
+  CHAPTERS_VTT_FILE,
+} from "./chapters.js";
+import { contentImages, type ContentFile } from "./content-schema.js";
+import { readManifest, MANIFEST_FILE } from "./frames.js";
+import { buildMarkdown, DEFAULT_IMAGE_BASE } from "./markdown.js";
+import { buildHTML, type Theme } from "./theme.js";
+
+export const HTML_FILE = "video.html";
+export const MARKDOWN_FILE = "video.md";
+
+export interface RenderOptions {
+  theme: Theme;
+  imageBase?: string; // 省略時は content.json の値、なければ output
+  source?: string; // 省略時は content.json の値
+}
+
+export interface RenderedFiles {
+  htmlPath: string;
+  markdownPath: string;
+  chaptersVttPath: string | null; // 動画長が分からなければ null
+  youtubeChaptersPath: string | null; // YouTube のチャプターの条件を満たさなければ null
+}
+
+// 動画長（content.json になければフレーム抽出時のマニフェストから）
+function contentDuration(projectDir: string, file: ContentFile): number | null {
+  if (file.duration) return file.duration;
+  const framesDir = join(projectDir, "frames");
+  return existsSync(join(framesDir, MANIFEST_FILE)) ? readManifest(framesDir).videoDuration || null : null;
+}
+
+export function renderProject(projectDir: string, file: ContentFile, options: RenderOptions): RenderedFiles {
+  const images = contentImages(file);
+
+  const htmlPath = join(projectDir, HTML_FILE);
+  writeFileSync(htmlPath, buildHTML(file.content, images, options.theme, file.video));
+
+  // Markdown（静的サイトジェネレーター向け）
+  const markdownPath = join(projectDir, MARKDOWN_FILE);
+  const markdown = buildMarkdown(file.content, images, {
+    imageBase: options.imageBase ?? file.imageBase ?? DEFAULT_IMAGE_BASE,
+    source: options.source ?? file.source,
+    video: file.video,
+    // 再描画・編集のたびに日付が変わらないよう、記事を生成した日にする
+    date: file.generatedAt ? new Date(file.generatedAt) : undefined,
+  });
+  writeFileSync(markdownPath, markdown);
+
+  // チャプター（WebVTT のトラックと YouTube の概要欄用）。出力しないときは前回の分を消す
+  const chaptersVttPath = join(projectDir, CHAPTERS_VTT_FILE);
+  const youtubeChaptersPath = join(projectDir, CHAPTERS_TEXT_FILE);
+  const duration = contentDuration(projectDir, file);
+  const chapters = duration ? buildChapters(file.content, duration) : [];
+  const youtubeChapters = fitYoutubeChapters(chapters);
+  if (chapters.length > 0) {
+    writeFileSync(chaptersVttPath, chaptersToVtt(chapters, file.content.language));
+  } else {
+    rmSync(chaptersVttPath, { force: true });
+  }
+  if (youtubeChapters) {
+    writeFileSync(youtubeChaptersPath, formatYoutubeChapters(youtubeChapters));
+  } else {
+    rmSync(youtubeChaptersPath, { force: true });
+  }
+
+  return {
+    htmlPath,
+    markdownPath,
+    chaptersVttPath: chapters.length > 0 ? chaptersVttPath : null,
+    youtubeChaptersPath: youtubeChapters ? youtubeChaptersPath : null,
+  };
+}
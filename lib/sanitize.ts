@@ -0,0 +1,152 @@
+/**
+ * モデルが生成したテキスト・HTMLのエスケープと無害化
+ * 本文は「HTMLタグ可」としているため、許可したタグ・属性だけを残して出力する
+ */
+
+// 許可するタグ（それ以外のタグは取り除き、中のテキストは残す）
+const ALLOWED_TAGS = new Set([
+  "p", "br", "strong", "b", "em", "i", "u", "s", "mark", "small", "sub", "sup",
+  "code", "pre", "kbd", "blockquote", "ul", "ol", "li", "h3", "h4", "h5", "h6",
+  "a", "span", "table", "thead", "tbody", "tr", "th", "td", "hr", "dl", "dt", "dd",
+]);
+
+// 中身ごと取り除くタグ
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "noscript", "template", "svg", "math",
+  "textarea", "select", "title", "head", "frame", "frameset", "noembed", "xmp",
+]);
+
+const VOID_TAGS = new Set(["br", "hr"]);
+
+// タグごとに許可する属性
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+  th: ["colspan", "rowspan"],
+  td: ["colspan", "rowspan"],
+  ol: ["start"],
+};
+
+// http(s) / mailto / スキームのない相対URL
+// "//host" や "/\host" のようなプロトコル相対URLは外部のサイトを指すので相対URLとして扱わない
+const SAFE_URL = /^(?:https?:|mailto:|(?![/\\]{2})[^:/?#]*(?:[/?#]|$))/i;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// テキスト部分のエスケープ（既存の文字参照 &amp; &#39; 等はそのまま残す）
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]{1,31}|#\d{1,7}|#x[0-9a-fA-F]{1,6});)/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// 文字参照をデコード（URLの判定用）
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&(quot|apos|amp|lt|gt|colon|tab|newline);/gi, (_, name: string) =>
+      ({ quot: '"', apos: "'", amp: "&", lt: "<", gt: ">", colon: ":", tab: "\t", newline: "\n" })[name.toLowerCase()]!
+    );
+}
+
+export function isSafeUrl(url: string): boolean {
+  // 制御文字・空白を除いてから判定（"java\tscript:" 等）
+  const normalized = decodeEntities(url).replace(/[\u0000- \u007f-\u009f]/g, "");
+  return SAFE_URL.test(normalized);
+}
+
+function parseAttributes(source: string): [string, string][] {
+  const attributes: [string, string][] = [];
+  const pattern = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes.push([match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? ""]);
+  }
+  return attributes;
+}
+
+function renderOpenTag(tag: string, rawAttributes: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+  const attributes = parseAttributes(rawAttributes)
+    .filter(([name]) => allowed.includes(name))
+    .filter(([name, value]) => name !== "href" || isSafeUrl(value))
+    .filter(([name, value]) => !["colspan", "rowspan", "start"].includes(name) || /^\d{1,4}$/.test(value))
+    .map(([name, value]) => ` ${name}="${escapeHtml(decodeEntities(value))}"`);
+
+  // 外部リンクは別タブで開き、参照元を渡さない
+  if (tag === "a" && attributes.some((a) => a.startsWith(' href="http'))) {
+    attributes.push(' target="_blank"', ' rel="noopener noreferrer nofollow"');
+  }
+  return `<${tag}${attributes.join("")}>`;
+}
+
+/**
+ * 許可リスト方式でHTMLを無害化する
+ * - 許可していないタグは取り除く（script・style等は中身ごと）
+ * - 属性は許可したものだけ残し、hrefは http(s) / mailto / 相対URL（プロトコル相対URLを除く）に限る
+ * - 閉じられていないタグは閉じ、対応しない閉じタグは捨てる
+ */
+export function sanitizeHtml(html: string): string {
+  const output: string[] = [];
+  const open: string[] = [];
+  const token = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<![^>]*>?|<\?[^>]*>?|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(html))) {
+    output.push(escapeText(html.slice(last, match.index)));
+    last = token.lastIndex;
+
+    const [, closing, rawTag, rawAttributes = ""] = match;
+    if (!rawTag) continue; // コメント・宣言・処理命令
+
+    const tag = rawTag.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      if (!closing) {
+        // 対応する閉じタグまで読み飛ばす
+        const end = html.toLowerCase().indexOf(`</${tag}`, last);
+        const close = end === -1 ? html.length : html.indexOf(">", end);
+        last = token.lastIndex = close === -1 ? html.length : close + 1;
+      }
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (closing) {
+      const index = open.lastIndexOf(tag);
+      if (index === -1) continue;
+      // 間に閉じられていないタグがあれば先に閉じる
+      while (open.length > index) output.push(`</${open.pop()}>`);
+    } else if (VOID_TAGS.has(tag)) {
+      output.push(`<${tag}>`);
+    } else {
+      output.push(renderOpenTag(tag, rawAttributes));
+      open.push(tag);
+    }
+  }
+  output.push(escapeText(html.slice(last)));
+  while (open.length > 0) output.push(`</${open.pop()}>`);
+  return output.join("");
+}
+
+// 生成したHTMLを配信するときのCSP（スクリプトを一切実行させない）
+export const GENERATED_HTML_CSP = [
+  "default-src 'none'",
+  "img-src 'self' data: https:",
+  "style-src 'self' 'unsafe-inline'",
+  "font-src 'self' data: https:",
+  "media-src 'self'",
+  // 埋め込みプレーヤー（動画ファイルは video.mp4 を直接開く）
+  "frame-src 'self' https://www.youtube-nocookie.com https://player.vimeo.com",
+  "base-uri 'self'",
+  "form-action 'none'",
+  "frame-ancestors 'self'",
+].join("; ");
@@ -0,0 +1,147 @@
+/**
+ * 生成した記事と文字起こしから SNS 向けの投稿を作る
+ * - X / Bluesky のスレッド（各投稿を両方の文字数の上限に収める）
+ * - LinkedIn の投稿
+ * - ニュースレター向けの短い紹介文
+ * LinkedIn・ニュースレターには記事のセクションの画像を1枚ずつ添える（保存するのはセクション番号だけ）
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { ContentFile } from "./content-schema.js";
+
+export const SOCIAL_FILE = "social.json";
+
+// X は重み付きの文字数（日本語・絵文字等は1文字2、URLは23）で280まで、Bluesky は書記素で300まで
+export const X_MAX_WEIGHT = 280;
+export const X_URL_WEIGHT = 23;
+export const BLUESKY_MAX_GRAPHEMES = 300;
+
+export const THREAD_MIN_POSTS = 3;
+export const THREAD_MAX_POSTS = 8;
+export const LINKEDIN_MAX_CHARS = 3000;
+export const NEWSLETTER_MAX_CHARS = 600;
+
+// 画像を添える投稿（section は記事のセクション番号。1始まり）
+// 画像はセクションの再生成で変わるので保存せず、表示のたびに content.json から引く（sectionImage）
+export interface SocialImagePost {
+  text: string;
+  section: number;
+}
+
+export interface SocialPosts {
+  thread: string[];
+  linkedin: SocialImagePost;
+  newsletter: SocialImagePost;
+}
+
+export interface SocialFile extends SocialPosts {
+  version: 1;
+  language: string;
+  generatedAt: string;
+}
+
+// X で1カウントになる文字の範囲（twitter-text の設定。それ以外は2カウント）
+const X_LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+// X の重み付きの文字数
+export function xWeightedLength(text: string): number {
+  const urls = text.match(URL_PATTERN) ?? [];
+  let weight = urls.length * X_URL_WEIGHT;
+  for (const char of text.replace(URL_PATTERN, "")) {
+    const code = char.codePointAt(0)!;
+    weight += X_LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+  }
+  return weight;
+}
+
+// 書記素（見た目の1文字）の数。Bluesky の上限・LinkedIn 等の文字数に使う
+export function graphemeLength(text: string): number {
+  return [...new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(text)].length;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// モデルの出力を検証する
+export function validateSocialPosts(value: unknown, file: ContentFile): { value?: SocialPosts; errors: string[] } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ['トップレベルは { "thread": [...], "linkedin": {...}, "newsletter": {...} } のオブジェクトにしてください'] };
+  }
+  const obj = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const sectionCount = file.content.sections.length;
+
+  const thread: string[] = [];
+  if (!Array.isArray(obj.thread)) {
+    errors.push("thread は投稿の文字列の配列にしてください");
+  } else {
+    if (obj.thread.length < THREAD_MIN_POSTS || obj.thread.length > THREAD_MAX_POSTS) {
+      errors.push(`thread は${THREAD_MIN_POSTS}〜${THREAD_MAX_POSTS}件にしてください（現在${obj.thread.length}件）`);
+    }
+    obj.thread.forEach((post, i) => {
+      if (!isNonEmptyString(post)) {
+        errors.push(`thread[${i}] は空でない文字列にしてください`);
+        return;
+      }
+      const text = post.trim();
+      const weight = xWeightedLength(text);
+      const graphemes = graphemeLength(text);
+      if (weight > X_MAX_WEIGHT) {
+        errors.push(`thread[${i}] はXの文字数（日本語等は1文字2、URLは23）で${weight}です。${X_MAX_WEIGHT}以下に短くしてください`);
+      } else if (graphemes > BLUESKY_MAX_GRAPHEMES) {
+        errors.push(`thread[${i}] は${graphemes}文字です。${BLUESKY_MAX_GRAPHEMES}文字以下に短くしてください`);
+      }
+      thread.push(text);
+    });
+  }
+
+  const imagePost = (key: "linkedin" | "newsletter", maxChars: number): SocialImagePost | null => {
+    const post = obj[key] as Record<string, unknown> | undefined;
+    if (typeof post !== "object" || post === null) {
+      errors.push(`${key} は { "text": ..., "section": ... } のオブジェクトにしてください`);
+      return null;
+    }
+    const { text, section } = post;
+    if (!isNonEmptyString(text)) {
+      errors.push(`${key}.text は空でない文字列にしてください`);
+    } else if (graphemeLength(text.trim()) > maxChars) {
+      errors.push(`${key}.text は${graphemeLength(text.trim())}文字です。${maxChars}文字以下にしてください`);
+    }
+    if (typeof section !== "number" || !Number.isInteger(section) || section < 1 || section > sectionCount) {
+      errors.push(`${key}.section は1〜${sectionCount}のセクション番号にしてください`);
+    }
+    if (!isNonEmptyString(text) || typeof section !== "number") return null;
+    return { text: text.trim(), section };
+  };
+  const linkedin = imagePost("linkedin", LINKEDIN_MAX_CHARS);
+  const newsletter = imagePost("newsletter", NEWSLETTER_MAX_CHARS);
+
+  if (errors.length > 0 || !linkedin || !newsletter) return { errors };
+  return { value: { thread, linkedin, newsletter }, errors };
+}
+
+// 投稿に添えるセクションの今の出力画像（プロジェクトディレクトリからの相対パス）
+export function sectionImage(file: ContentFile, section: number): string | null {
+  return file.sections[section - 1]?.image || null;
+}
+
+export function writeSocialFile(projectDir: string, file: SocialFile): void {
+  writeFileSync(join(projectDir, SOCIAL_FILE), JSON.stringify(file, null, 2));
+}
+
+export function readSocialFile(projectDir: string): SocialFile {
+  const path = join(projectDir, SOCIAL_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`${path} が見つかりません。generate-social.ts で投稿を生成してください`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as SocialFile;
+}
@@ -0,0 +1,46 @@
+/**
+ * テーマ用の最小限のテンプレートエンジン（Mustache風）
+ * - {{ name }}           HTMLエスケープして埋め込む
+ * - {{{ name }}}         そのまま埋め込む（本文HTML・CSSなど）
+ * - {{#name}}...{{/name}} 値がある場合だけ出力
+ * - {{^name}}...{{/name}} 値がない場合だけ出力
+ * name は "partials.header" のようにドット区切りで参照できる
+ */
+
+import { escapeHtml } from "./sanitize.js";
+
+export type TemplateData = Record<string, unknown>;
+
+function lookup(data: TemplateData, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== "";
+}
+
+function toText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+export function renderTemplate(template: string, data: TemplateData): string {
+  // 条件ブロック（内側から順に解決）
+  let result = template;
+  const block = /\{\{([#^])\s*([\w.]+)\s*\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\s*\2\s*\}\}/g;
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(block, (_, kind: string, name: string, inner: string) =>
+      isPresent(lookup(data, name)) === (kind === "#") ? inner : ""
+    );
+  } while (result !== previous);
+
+  // {{{ }}} と {{ }} を1回で置き換える（埋め込んだ値の中の "{{ name }}" は置き換えない）
+  return result.replace(/\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*\}\}/g, (_, raw?: string, escaped?: string) =>
+    raw ? toText(lookup(data, raw)) : escapeHtml(toText(lookup(data, escaped!)))
+  );
+}
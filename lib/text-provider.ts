@@ -0,0 +1,138 @@
+/**
+ * テキスト生成プロバイダ
+ * Gemini / OpenAI / OpenAI互換のローカルエンドポイント（Ollama, llama.cpp server等）を切り替える
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import OpenAI from "openai";
+
+export const TEXT_PROVIDERS = ["gemini", "openai", "local"] as const;
+export type TextProviderName = (typeof TEXT_PROVIDERS)[number];
+
+export interface TextProviderOptions {
+  provider?: TextProviderName;
+  model?: string;
+  baseUrl?: string; // openai / local のみ
+  apiKey?: string;
+}
+
+export interface GenerateOptions {
+  // JSONモード（構造化出力）でJSONのみを返させる
+  json?: boolean;
+}
+
+export interface TextProvider {
+  readonly name: TextProviderName;
+  readonly model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<TextProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+};
+
+// Ollamaのデフォルト
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+export function isTextProviderName(value: string): value is TextProviderName {
+  return (TEXT_PROVIDERS as readonly string[]).includes(value);
+}
+
+// 引数 > 環境変数 > デフォルト の順で設定を決定
+export function resolveTextProviderOptions(
+  options: TextProviderOptions = {}
+): Required<Omit<TextProviderOptions, "baseUrl">> & { baseUrl?: string } {
+  const envProvider = process.env.TEXT_PROVIDER || "gemini";
+  if (!options.provider && !isTextProviderName(envProvider)) {
+    throw new Error(`不明なテキストプロバイダ: ${envProvider}`);
+  }
+  const provider = options.provider || (envProvider as TextProviderName);
+
+  const model = options.model || process.env.TEXT_MODEL || DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case "gemini":
+      return { provider, model, apiKey: options.apiKey || process.env.GEMINI_API_KEY || "" };
+    case "openai":
+      return {
+        provider,
+        model,
+        baseUrl: options.baseUrl || process.env.OPENAI_BASE_URL,
+        apiKey: options.apiKey || process.env.OPENAI_API_KEY || "",
+      };
+    case "local":
+      return {
+        provider,
+        model,
+        baseUrl: options.baseUrl || process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        // ローカルサーバーはキー不要だが、OpenAIクライアントは空文字を受け付けない
+        apiKey: options.apiKey || process.env.LOCAL_LLM_API_KEY || "local",
+      };
+  }
+}
+
+// 必要な認証情報が揃っていなければエラーメッセージを返す
+export function checkTextProviderCredentials(options: TextProviderOptions = {}): string | null {
+  const resolved = resolveTextProviderOptions(options);
+  if (resolved.provider === "gemini" && !resolved.apiKey) {
+    return "GEMINI_API_KEY環境変数を設定してください";
+  }
+  if (resolved.provider === "openai" && !resolved.apiKey) {
+    return "OPENAI_API_KEY環境変数を設定してください";
+  }
+  return null;
+}
+
+function createGeminiProvider(model: string, apiKey: string): TextProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return {
+    name: "gemini",
+    model,
+    async generate(prompt, options = {}) {
+      const result = await genAI
+        .getGenerativeModel({
+          model,
+          ...(options.json && { generationConfig: { responseMimeType: "application/json" } }),
+        })
+        .generateContent(prompt);
+      return result.response.text();
+    },
+  };
+}
+
+function createOpenAIProvider(
+  name: "openai" | "local",
+  model: string,
+  apiKey: string,
+  baseUrl?: string
+): TextProvider {
+  const client = new OpenAI({ apiKey, baseURL: baseUrl });
+  return {
+    name,
+    model,
+    async generate(prompt, options = {}) {
+      // Ollama・llama.cpp server もOpenAI互換の json_object に対応している
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        ...(options.json && { response_format: { type: "json_object" as const } }),
+      });
+      const text = completion.choices[0]?.message?.content;
+      if (!text) throw new Error(`${name}: 空のレスポンスが返されました`);
+      return text;
+    },
+  };
+}
+
+export function createTextProvider(options: TextProviderOptions = {}): TextProvider {
+  const { provider, model, apiKey, baseUrl } = resolveTextProviderOptions(options);
+  switch (provider) {
+    case "gemini":
+      return createGeminiProvider(model, apiKey);
+    case "openai":
+    case "local":
+      return createOpenAIProvider(provider, model, apiKey, baseUrl);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * 記事HTMLのテーマ
+ * テーマはディレクトリ単位（THEMES_DIR/<name>/）で、次のファイルからなる
+ * - template.html               ページ全体のテンプレート
+ * - style.css                   テンプレートの {{{ style }}} に埋め込むCSS
+ * - partials/section.html       セクション1つ分のテンプレート
+ * - partials/<name>.<type>.html コンテンツタイプ別の上書き（例: section.tutorial.html）
+ * - partials/<name>.html        その他の部品（テンプレートから {{{ partials.<name> }}} で参照）
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import type { ContentType, GeneratedContent } from "./content-schema.js";
+import { renderTemplate, type TemplateData } from "./template.js";
+import { secondsToTimestamp } from "./transcript.js";
+import { sanitizeHtml } from "./sanitize.js";
+import { DEFAULT_ARTICLE_LANGUAGE } from "./language.js";
+import { videoEmbedUrl, videoSeekUrl, VIDEO_PLAYER_NAME, type VideoEmbed } from "./video-embed.js";
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+// ブランドテーマなどをリポジトリの外に置く場合は THEMES_DIR で指定
+export const THEMES_DIR = process.env.THEMES_DIR || join(ROOT_DIR, "themes");
+export const DEFAULT_THEME = "default";
+
+export interface Theme {
+  name: string;
+  template: string;
+  style: string;
+  partials: Record<string, string>; // ファイル名（拡張子なし）→ 内容
+}
+
+export function listThemes(): string[] {
+  if (!existsSync(THEMES_DIR)) return [];
+  return readdirSync(THEMES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(join(THEMES_DIR, entry.name, "template.html")))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+export function isThemeName(value: string): boolean {
+  return listThemes().includes(value);
+}
+
+export function loadTheme(name: string = DEFAULT_THEME): Theme {
+  const dir = join(THEMES_DIR, name);
+  const templatePath = join(dir, "template.html");
+  if (!/^[\w-]+$/.test(name) || !existsSync(templatePath)) {
+    throw new Error(`テーマが見つかりません: ${name}（${THEMES_DIR}）`);
+  }
+
+  const stylePath = join(dir, "style.css");
+  const partialsDir = join(dir, "partials");
+  const partials: Record<string, string> = {};
+  if (existsSync(partialsDir)) {
+    for (const file of readdirSync(partialsDir)) {
+      if (file.endsWith(".html")) partials[file.replace(/\.html$/, "")] = readFileSync(join(partialsDir, file), "utf-8");
+    }
+  }
+  if (!partials.section) {
+    throw new Error(`テーマ ${name} に partials/section.html がありません`);
+  }
+
+  return {
+    name,
+    template: readFileSync(templatePath, "utf-8"),
+    style: existsSync(stylePath) ? readFileSync(stylePath, "utf-8") : "",
+    partials,
+  };
+}
+
+// コンテンツタイプ別の部品があればそれを、なければ共通の部品を使う
+function resolvePartial(theme: Theme, name: string, type: ContentType): string {
+  return theme.partials[`${name}.${type}`] ?? theme.partials[name] ?? "";
+}
+
+// video を指定すると、プレーヤーを埋め込み、各セクションの時刻をその時刻から再生するリンクにする
+export function buildHTML(content: GeneratedContent, images: string[], theme: Theme, video?: VideoEmbed): string {
+  const sections = content.sections
+    .map((section, i) =>
+      renderTemplate(resolvePartial(theme, "section", content.type), {
+        index: i,
+        number: i + 1,
+        heading: section.heading,
+        // 本文はモデルが書いたHTMLなので許可したタグだけ残す
+        body: sanitizeHtml(section.body),
+        startTime: section.startTime,
+        timestamp: secondsToTimestamp(section.startTime),
+        timestampUrl: video ? videoSeekUrl(video, section.startTime) : "",
+        videoPlayer: VIDEO_PLAYER_NAME,
+        image: images[i] || "",
+        imagePrompt: section.imagePrompt,
+      })
+    )
+    .join("\n");
+
+  const page: TemplateData = {
+    title: content.title,
+    type: content.type,
+    lang: content.language ?? DEFAULT_ARTICLE_LANGUAGE,
+    tags: content.tags ?? [],
+    tagList: (content.tags ?? []).join(", "),
+    theme: theme.name,
+    style: theme.style,
+    video: video ? { kind: video.kind, embedUrl: videoEmbedUrl(video), player: VIDEO_PLAYER_NAME } : null,
+    sections,
+  };
+
+  // section 以外の部品（header, footer 等）はページと同じデータで描画
+  const partialNames = new Set(Object.keys(theme.partials).map((key) => key.split(".")[0]));
+  partialNames.delete("section");
+  page.partials = Object.fromEntries(
+    [...partialNames].map((name) => [name, renderTemplate(resolvePartial(theme, name, content.type), page)])
+  );
+
+  return renderTemplate(theme.template, page);
+}
@@ -0,0 +1,234 @@
+/**
+ * 文字起こし（VTT）の解析と長時間動画向けの分割要約
+ * 長い文字起こしは時間で区切ったチャンクごとに要約し（map）、要約から記事を組み立てる（reduce）
+ */
+
+import { parseWebVtt } from "./caption-parser.js";
+import type { TextProvider } from "./text-provider.js";
+
+export interface VttCue {
+  startTime: number; // 秒
+  endTime: number;
+  text: string;
+  speaker?: string; // 話者（VTTの <v 話者>）
+}
+
+// 時間で区切った文字起こしの一部
+export interface CueChunk {
+  startTime: number;
+  endTime: number;
+  cues: VttCue[];
+  summary?: string; // summarizeChunks で設定
+}
+
+export interface ChunkOptions {
+  windowSeconds?: number; // 1チャンクの最大の長さ
+  maxChars?: number; // 1チャンクの最大文字数
+}
+
+const DEFAULT_WINDOW_SECONDS = 300;
+const DEFAULT_MAX_CHARS = 6000;
+
+// これ以下の文字数ならチャンク要約せず、文字起こしをそのままプロンプトに入れる
+export const DIRECT_PROMPT_MAX_CHARS = 12000;
+
+// video.vtt のキュー（識別子・キュー設定は使わないので落とす）
+export function parseVtt(vttContent: string): VttCue[] {
+  return parseWebVtt(vttContent).map(({ startTime, endTime, text, speaker }) =>
+    speaker ? { startTime, endTime, text, speaker } : { startTime, endTime, text }
+  );
+}
+
+// ヘッダー（WEBVTT の行から最初の空行まで）の "Language: xx" を読む
+export function readVttLanguage(vttContent: string): string | null {
+  const header = vttContent.split(/\r?\n\r?\n/)[0];
+  const match = header.match(/^Language:\s*([\w-]+)\s*$/im);
+  return match ? match[1] : null;
+}
+
+// ヘッダーに "Language: xx" を書き込む（YouTube等の字幕と同じ形式）
+export function setVttLanguage(vttContent: string, language: string): string {
+  const [header, ...rest] = vttContent.split(/\r?\n\r?\n/);
+  const lines = header.split(/\r?\n/).filter((line) => !/^Language:/i.test(line));
+  lines.splice(1, 0, `Language: ${language}`);
+  return [lines.join("\n"), ...rest].join("\n\n");
+}
+
+// 秒 → VTTの時刻（hh:mm:ss.mmm）
+function formatVttTime(seconds: number): string {
+  return new Date(Math.round(seconds * 1000)).toISOString().slice(11, 23);
+}
+
+// 秒 → 記事に表示する時刻（hh:mm:ss）
+export function secondsToTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().slice(11, 19);
+}
+
+// キューテキスト中の "&", "<", ">" は文字参照にする（"-->" も時刻行と誤認されなくなる）
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// 文字起こしAPIなどのセグメント（開始・終了秒とテキスト）からVTTを作る。話者は <v 話者> で残す
+export function cuesToVtt(cues: VttCue[]): string {
+  const body = cues
+    .filter((cue) => cue.text.trim())
+    .map((cue) => {
+      const voice = cue.speaker ? `<v ${escapeCueText(cue.speaker)}>` : "";
+      return `${formatVttTime(cue.startTime)} --> ${formatVttTime(cue.endTime)}\n${voice}${escapeCueText(cue.text.trim())}`;
+    })
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * 編集されたキュー（APIで受け取ったJSON）を検証する
+ * テキストを空にしたキューは削除として扱い、開始時刻順に並べ直す
+ */
+export function validateCues(value: unknown): { cues: VttCue[]; errors: string[] } {
+  if (!Array.isArray(value)) return { cues: [], errors: ["cues は配列にしてください"] };
+
+  const errors: string[] = [];
+  const cues: VttCue[] = [];
+  value.forEach((item, i) => {
+    const cue = item as Partial<VttCue> | null;
+    if (typeof cue !== "object" || cue === null) {
+      errors.push(`cues[${i}] はオブジェクトにしてください`);
+      return;
+    }
+    const { startTime, endTime, text, speaker } = cue;
+    if (typeof startTime !== "number" || !Number.isFinite(startTime) || startTime < 0) {
+      errors.push(`cues[${i}].startTime は0以上の数値にしてください`);
+    } else if (typeof endTime !== "number" || !Number.isFinite(endTime) || endTime < startTime) {
+      errors.push(`cues[${i}].endTime は startTime 以上の数値にしてください`);
+    } else if (typeof text !== "string") {
+      errors.push(`cues[${i}].text は文字列にしてください`);
+    } else if (speaker !== undefined && speaker !== null && typeof speaker !== "string") {
+      errors.push(`cues[${i}].speaker は文字列にしてください`);
+    } else if (text.trim()) {
+      const validated: VttCue = { startTime, endTime, text: text.replace(/\s*\n\s*/g, " ").trim() };
+      if (speaker?.trim()) validated.speaker = speaker.replace(/\s+/g, " ").trim();
+      cues.push(validated);
+    }
+  });
+  if (errors.length === 0 && cues.length === 0) errors.push("キューが1つもありません");
+  return { cues: cues.sort((a, b) => a.startTime - b.startTime), errors };
+}
+
+export function cuesToText(cues: VttCue[]): string {
+  return cues.map((c) => c.text).join(" ");
+}
+
+// 各キューに開始時刻（秒）と話者を付けた文字起こし（モデルが正確な時刻・発言者を参照できるように）
+export function cuesToTimedText(cues: VttCue[]): string {
+  return cues.map((c) => `[${Math.floor(c.startTime)}] ${c.speaker ? `${c.speaker}: ` : ""}${c.text}`).join("\n");
+}
+
+// 話者の一覧（登場順）
+export function listSpeakers(cues: VttCue[]): string[] {
+  return [...new Set(cues.flatMap((c) => (c.speaker ? [c.speaker] : [])))];
+}
+
+// 話者が分かる文字起こしのとき、発言を正しい人物に帰属させるための要件（プロンプトの要件の1行。話者がいなければ空）
+export function speakerRequirement(cues: VttCue[]): string {
+  const speakers = listSpeakers(cues);
+  if (speakers.length === 0) return "";
+  return `\n- 動画の話者は ${speakers.join("、")}（行頭の「名前: 」が発言者）。発言・意見・主張は言った人物のものとして書き、人物を取り違えない。複数人の発言を扱うときは誰の発言か本文で分かるようにする`;
+}
+
+// 秒 → mm:ss / h:mm:ss
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * キューを時間で区切ったチャンクに分ける
+ * windowSeconds を超えるか、文字数が maxChars を超える手前で次のチャンクにする
+ */
+export function chunkCues(cues: VttCue[], options: ChunkOptions = {}): CueChunk[] {
+  const { windowSeconds = DEFAULT_WINDOW_SECONDS, maxChars = DEFAULT_MAX_CHARS } = options;
+  const chunks: CueChunk[] = [];
+  let current: VttCue[] = [];
+  let chars = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      startTime: current[0].startTime,
+      endTime: current[current.length - 1].endTime,
+      cues: current,
+    });
+    current = [];
+    chars = 0;
+  };
+
+  for (const cue of cues) {
+    const tooLong = current.length > 0 && cue.endTime - current[0].startTime > windowSeconds;
+    const tooBig = current.length > 0 && chars + cue.text.length > maxChars;
+    if (tooLong || tooBig) flush();
+    current.push(cue);
+    chars += cue.text.length;
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * 各チャンクを要約する（map）
+ * 要約の各要点には、根拠となる発言の開始時刻（秒）を [秒] の形で付けさせる
+ */
+export async function summarizeChunks(
+  provider: TextProvider,
+  chunks: CueChunk[],
+  onProgress?: (done: number, total: number) => void
+): Promise<CueChunk[]> {
+  const results: CueChunk[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const range = `${formatTimestamp(chunk.startTime)}〜${formatTimestamp(chunk.endTime)}`;
+    console.log(`  要約中 [${i + 1}/${chunks.length}] ${range}`);
+    // 話者が分かる区間では、要約の後でも発言者を取り違えないよう要点に話者を残させる
+    const speakerNote =
+      listSpeakers(chunk.cues).length > 0 ? "\n- 行頭に「名前: 」がある発言は、要点にも誰の発言かを書く（例: [120] 山田: 〜と説明）" : "";
+
+    const prompt = `以下は動画の ${range} の区間の文字起こしです。各行の先頭の [数字] は発言の開始時刻（秒）です。
+
+この区間の内容を、話題の変わり目が分かるように5〜10個の要点に要約してください。
+- 1行に1つの要点
+- 各行の先頭に、その要点の根拠となる発言の開始時刻を [秒] の形で付ける（文字起こし中の時刻を使う）
+- 固有名詞・数値・手順は省略しない${speakerNote}
+
+文字起こし:
+${cuesToTimedText(chunk.cues)}
+
+要約:`;
+
+    const summary = (await provider.generate(prompt)).trim();
+    results.push({ ...chunk, summary });
+    onProgress?.(i + 1, chunks.length);
+  }
+  return results;
+}
+
+// 要約済みチャンクをプロンプト用のテキストにする
+export function chunkSummariesToText(chunks: CueChunk[]): string {
+  return chunks
+    .map((c) => `## ${formatTimestamp(c.startTime)}〜${formatTimestamp(c.endTime)}（${Math.floor(c.startTime)}〜${Math.floor(c.endTime)}秒）\n${c.summary ?? ""}`)
+    .join("\n\n");
+}
+
+// 指定時刻を、それ以前で最も近いキューの開始時刻に合わせる
+export function snapToCue(cues: VttCue[], time: number): number {
+  if (cues.length === 0 || !Number.isFinite(time)) return 0;
+  let snapped = cues[0].startTime;
+  for (const cue of cues) {
+    if (cue.startTime > time) break;
+    snapped = cue.startTime;
+  }
+  return snapped;
+}
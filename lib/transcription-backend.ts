@@ -0,0 +1,312 @@
+/**
+ * 文字起こしバックエンド
+ * - whisper-cpp:    whisper.cpp の whisper-cli（ggmlモデルを各OSの標準的な場所から探す）
+ * - faster-whisper: faster-whisper のCLI（whisper-ctranslate2）
+ * - openai:         OpenAI互換の /audio/transcriptions（OpenAI API、またはローカルのサーバー）
+ * いずれも出力は VTT（outputBase.vtt）と、判定した言語
+ */
+
+import OpenAI from "openai";
+import { createReadStream, existsSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { basename, dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { runCommand } from "./command.js";
+import { AUTO_LANGUAGE, normalizeLanguage, parseWhisperDetectedLanguage } from "./language.js";
+import { parseWhisperProgress } from "./progress.js";
+import { cuesToVtt, type VttCue } from "./transcript.js";
+
+export const TRANSCRIPTION_BACKENDS = ["whisper-cpp", "faster-whisper", "openai"] as const;
+export type TranscriptionBackendName = (typeof TRANSCRIPTION_BACKENDS)[number];
+
+// whisper-cpp / faster-whisper で選べるモデルサイズ（.en は英語専用）
+export const WHISPER_MODEL_SIZES = [
+  "tiny", "tiny.en", "base", "base.en", "small", "small.en", "medium", "medium.en",
+  "large-v1", "large-v2", "large-v3", "large-v3-turbo",
+] as const;
+
+// openai のモデル名（whisper-1、ローカルのサーバーの Systran/faster-whisper-small 等）
+const OPENAI_MODEL_NAME = /^[A-Za-z0-9][\w.:-]*(?:\/[A-Za-z0-9][\w.:-]*)?$/;
+
+export interface TranscriptionBackendOptions {
+  backend?: TranscriptionBackendName;
+  // whisper-cpp / faster-whisper: モデルサイズ（small 等）またはモデルファイルのパス
+  // openai: モデル名（whisper-1 等）
+  model?: string;
+  baseUrl?: string; // openai のみ
+}
+
+export interface TranscriptionRequest {
+  wavPath: string; // 16kHz モノラル WAV
+  outputBase: string; // 拡張子なしの出力パス（outputBase.vtt に書き出す）
+  language: string; // 言語コードまたは auto
+  duration: number; // 音声の長さ（秒）。進捗の計算に使う
+  onProgress?: (fraction: number) => void;
+}
+
+export interface TranscriptionResult {
+  vttPath: string;
+  language: string | null; // 自動判定の結果または指定した言語（不明ならnull）
+}
+
+export interface TranscriptionBackend {
+  readonly name: TranscriptionBackendName;
+  readonly model: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+const DEFAULT_MODELS: Record<TranscriptionBackendName, string> = {
+  "whisper-cpp": "large-v3-turbo",
+  "faster-whisper": "large-v3-turbo",
+  openai: "whisper-1",
+};
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+export function isTranscriptionBackendName(value: string): value is TranscriptionBackendName {
+  return (TRANSCRIPTION_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * サーバーのAPIから指定されたモデルを検証し、不正ならエラーメッセージを返す
+ * whisper-cpp / faster-whisper はモデルサイズだけを受け付ける（モデルファイルのパスは CLI と環境変数でだけ指定できる）
+ */
+export function validateTranscriptionModel(backend: TranscriptionBackendName, model: string): string | null {
+  if (backend === "openai") {
+    return OPENAI_MODEL_NAME.test(model) && model.length <= 100 ? null : `不正なモデル名: ${model}`;
+  }
+  if ((WHISPER_MODEL_SIZES as readonly string[]).includes(model)) return null;
+  return `${backend} のモデルには ${WHISPER_MODEL_SIZES.join(", ")} のいずれかを指定してください`;
+}
+
+// 引数 > TRANSCRIPTION_BACKEND > whisper-cpp
+export function resolveTranscriptionBackendName(backend?: TranscriptionBackendName): TranscriptionBackendName {
+  if (backend) return backend;
+  const envBackend = process.env.TRANSCRIPTION_BACKEND;
+  if (envBackend) {
+    if (!isTranscriptionBackendName(envBackend)) {
+      throw new Error(`不明な文字起こしバックエンド: ${envBackend}`);
+    }
+    return envBackend;
+  }
+  return "whisper-cpp";
+}
+
+// ===== whisper.cpp =====
+
+// ggmlモデルを探すディレクトリ（WHISPER_MODEL_DIR > Linux（install.sh の保存先）> Homebrew > リポジトリ内）
+export function whisperCppModelDirs(): string[] {
+  const dataHome = process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return [
+    ...(process.env.WHISPER_MODEL_DIR ? [process.env.WHISPER_MODEL_DIR] : []),
+    join(dataHome, "whisper-cpp", "models"),
+    "/opt/homebrew/share/whisper-cpp/models",
+    "/usr/local/share/whisper-cpp/models",
+    "/usr/share/whisper-cpp/models",
+    join(ROOT_DIR, "models"),
+  ];
+}
+
+/**
+ * whisper.cpp のモデルファイルを探す
+ * モデルの指定（引数・プロジェクト設定）があればそれを使い、なければ WHISPER_MODEL_PATH、
+ * それもなければ WHISPER_MODEL のサイズにする。パスならそのファイル、
+ * サイズ名なら各ディレクトリの ggml-<size>.bin を順に探す
+ */
+export function findWhisperCppModel(model?: string): string {
+  if (!model) {
+    const envPath = process.env.WHISPER_MODEL_PATH;
+    if (envPath) {
+      if (!existsSync(envPath)) throw new Error(`WHISPER_MODEL_PATH のモデルが見つかりません: ${envPath}`);
+      return envPath;
+    }
+    model = process.env.WHISPER_MODEL || DEFAULT_MODELS["whisper-cpp"];
+  }
+  if (model.includes("/") || model.endsWith(".bin")) {
+    if (!existsSync(model)) throw new Error(`モデルファイルが見つかりません: ${model}`);
+    return model;
+  }
+
+  const file = `ggml-${model}.bin`;
+  const dirs = whisperCppModelDirs();
+  const found = dirs.map((dir) => join(dir, file)).find((path) => existsSync(path));
+  if (found) return found;
+
+  throw new Error(
+    [
+      `whisper.cpp のモデル ${file} が見つかりません。次の場所を探しました:`,
+      ...dirs.map((dir) => `  - ${dir}`),
+      `ダウンロード: https://huggingface.co/ggerganov/whisper.cpp/resolve/main/${file}`,
+      "（WHISPER_MODEL_PATH でファイル、WHISPER_MODEL_DIR でディレクトリを指定できます）",
+    ].join("\n")
+  );
+}
+
+// model は明示的な指定（なければ WHISPER_MODEL_PATH・WHISPER_MODEL の順に使う）
+function createWhisperCppBackend(model: string | undefined): TranscriptionBackend {
+  return {
+    name: "whisper-cpp",
+    model: model || process.env.WHISPER_MODEL_PATH || process.env.WHISPER_MODEL || DEFAULT_MODELS["whisper-cpp"],
+    async transcribe({ wavPath, outputBase, language, onProgress }) {
+      const modelPath = findWhisperCppModel(model);
+      console.log(`モデル: ${modelPath}`);
+
+      // -l auto: 言語を自動判定（判定結果は標準エラーに出力される）
+      // -ovtt: VTT形式（タイムスタンプ付き）
+      // -pp: 進捗を標準エラーに出力
+      let detected: string | null = null;
+      await runCommand(
+        process.env.WHISPER_CPP_BIN || "whisper-cli",
+        ["-m", modelPath, "-l", language, "-pp", "-ovtt", "-of", outputBase, wavPath],
+        {
+          onStderrLine: (line) => {
+            process.stderr.write(line + "\n");
+            detected = parseWhisperDetectedLanguage(line) ?? detected;
+            const fraction = parseWhisperProgress(line);
+            if (fraction !== null) onProgress?.(fraction);
+          },
+        }
+      );
+      return { vttPath: `${outputBase}.vtt`, language: language === AUTO_LANGUAGE ? detected : language };
+    },
+  };
+}
+
+// ===== faster-whisper =====
+
+// whisper-ctranslate2 の --verbose 出力 "[00:01.000 --> 00:05.000] テキスト" の終了時刻（秒）
+function parseSegmentEndTime(line: string): number | null {
+  const match = line.match(/-->\s*(?:(\d+):)?(\d+):(\d+(?:\.\d+)?)\]/);
+  if (!match) return null;
+  return parseInt(match[1] ?? "0", 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+interface FasterWhisperJson {
+  language?: string;
+  segments?: { start: number; end: number; text: string }[];
+}
+
+function createFasterWhisperBackend(model: string): TranscriptionBackend {
+  return {
+    name: "faster-whisper",
+    model,
+    async transcribe({ wavPath, outputBase, language, duration, onProgress }) {
+      // JSONで出力させ、判定した言語とセグメントからVTTを作る
+      const outputDir = dirname(outputBase);
+      const args = [
+        wavPath,
+        "--model", model,
+        "--output_format", "json",
+        "--output_dir", outputDir,
+        "--verbose", "True",
+        ...(language === AUTO_LANGUAGE ? [] : ["--language", language]),
+      ];
+      const onLine = (line: string) => {
+        const end = parseSegmentEndTime(line);
+        if (end !== null && duration > 0) onProgress?.(end / duration);
+      };
+      await runCommand(process.env.FASTER_WHISPER_BIN || "whisper-ctranslate2", args, {
+        onStdoutLine: (line) => {
+          console.log(line);
+          onLine(line);
+        },
+        onStderrLine: (line) => {
+          process.stderr.write(line + "\n");
+          onLine(line);
+        },
+      });
+
+      const jsonPath = join(outputDir, basename(wavPath).replace(/\.[^.]+$/, "") + ".json");
+      if (!existsSync(jsonPath)) throw new Error(`faster-whisper の出力が見つかりません: ${jsonPath}`);
+      const result = JSON.parse(readFileSync(jsonPath, "utf-8")) as FasterWhisperJson;
+      rmSync(jsonPath, { force: true });
+
+      const cues: VttCue[] = (result.segments ?? []).map((s) => ({ startTime: s.start, endTime: s.end, text: s.text }));
+      const vttPath = `${outputBase}.vtt`;
+      writeFileSync(vttPath, cuesToVtt(cues));
+      return { vttPath, language: language === AUTO_LANGUAGE ? normalizeLanguage(result.language) : language };
+    },
+  };
+}
+
+// ===== OpenAI互換API =====
+
+// アップロードの上限（OpenAI API）と、1回に送る区間の長さ（32kbps で約14MB）
+const OPENAI_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const OPENAI_CHUNK_SECONDS = 60 * 60;
+
+function createOpenAIBackend(model: string, baseUrl?: string): TranscriptionBackend {
+  const client = new OpenAI({
+    // ローカルのサーバーではAPIキーは不要なことが多い
+    apiKey: process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY || "not-needed",
+    baseURL: baseUrl || process.env.TRANSCRIPTION_BASE_URL || process.env.OPENAI_BASE_URL,
+  });
+  return {
+    name: "openai",
+    model,
+    async transcribe({ wavPath, outputBase, language, duration, onProgress }) {
+      // アップロードサイズの上限（OpenAIは25MB）に収まるよう、低ビットレートのMP3にして区間ごとに送る
+      const mp3Path = `${outputBase}.upload.mp3`;
+      const chunkCount = Math.max(1, Math.ceil(duration / OPENAI_CHUNK_SECONDS));
+      const cues: VttCue[] = [];
+      let detected: string | null = null;
+
+      try {
+        for (let i = 0; i < chunkCount; i++) {
+          const offset = i * OPENAI_CHUNK_SECONDS;
+          const range = chunkCount > 1 ? ["-ss", String(offset), "-t", String(OPENAI_CHUNK_SECONDS)] : [];
+          await runCommand("ffmpeg", ["-loglevel", "error", ...range, "-i", wavPath, "-ac", "1", "-b:a", "32k", "-y", mp3Path]);
+          const size = statSync(mp3Path).size;
+          if (size > OPENAI_MAX_UPLOAD_BYTES) {
+            throw new Error(
+              `アップロードする音声（${(size / 1024 / 1024).toFixed(1)}MB）が上限の${OPENAI_MAX_UPLOAD_BYTES / 1024 / 1024}MBを超えています`
+            );
+          }
+          onProgress?.((i + 0.1) / chunkCount);
+
+          // 2つ目以降の区間は最初の区間で判定した言語で文字起こしする
+          const chunkLanguage = language === AUTO_LANGUAGE ? detected : language;
+          const response = await client.audio.transcriptions.create({
+            file: createReadStream(mp3Path),
+            model,
+            response_format: "verbose_json",
+            ...(chunkLanguage ? { language: chunkLanguage } : {}),
+          });
+          detected ??= normalizeLanguage(response.language);
+
+          const chunkCues: VttCue[] = (response.segments ?? []).map((s) => ({
+            startTime: offset + s.start,
+            endTime: offset + s.end,
+            text: s.text,
+          }));
+          if (chunkCues.length === 0 && response.text) {
+            // セグメントを返さないサーバーでは区間全体を1つのキューにする
+            const end = response.duration ? offset + response.duration : Math.min(duration, offset + OPENAI_CHUNK_SECONDS);
+            chunkCues.push({ startTime: offset, endTime: end, text: response.text });
+          }
+          cues.push(...chunkCues);
+          onProgress?.((i + 1) / chunkCount);
+        }
+
+        const vttPath = `${outputBase}.vtt`;
+        writeFileSync(vttPath, cuesToVtt(cues));
+        return { vttPath, language: language === AUTO_LANGUAGE ? detected : language };
+      } finally {
+        rmSync(mp3Path, { force: true });
+      }
+    },
+  };
+}
+
+// 引数 > WHISPER_MODEL（whisper-cpp は WHISPER_MODEL_PATH も。openai は TRANSCRIPTION_MODEL）> バックエンドの既定
+export function createTranscriptionBackend(options: TranscriptionBackendOptions = {}): TranscriptionBackend {
+  const name = resolveTranscriptionBackendName(options.backend);
+  switch (name) {
+    case "whisper-cpp":
+      return createWhisperCppBackend(options.model);
+    case "faster-whisper":
+      return createFasterWhisperBackend(options.model || process.env.WHISPER_MODEL || DEFAULT_MODELS[name]);
+    case "openai":
+      return createOpenAIBackend(options.model || process.env.TRANSCRIPTION_MODEL || DEFAULT_MODELS[name], options.baseUrl);
+  }
+}
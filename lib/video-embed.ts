@@ -0,0 +1,88 @@
+/**
+ * 記事に埋め込む動画（プロジェクトの動画ファイル、または YouTube / Vimeo）
+ * 生成HTMLではスクリプトを使えないので、プレーヤーは名前付きのiframeにし、
+ * 各セクションの時刻はそのiframeを指定時刻のURLで開き直すリンクにする
+ */
+
+export const VIDEO_PLAYER_NAME = "video-player";
+
+export type VideoEmbed =
+  | { kind: "file"; src: string } // 記事からの相対パス（video.mp4）
+  | { kind: "youtube" | "vimeo"; id: string; url: string };
+
+// YouTube（watch / youtu.be / shorts / embed）・Vimeo のURLから動画IDを取り出す
+export function parseVideoUrl(url: string): VideoEmbed | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return null;
+
+  const host = parsed.hostname.replace(/^(www|m)\./, "");
+  const path = parsed.pathname.split("/").filter(Boolean);
+  let youtubeId: string | null = null;
+  if (host === "youtube.com" || host === "youtube-nocookie.com") {
+    youtubeId = path[0] === "watch" ? parsed.searchParams.get("v") : ["embed", "shorts", "live"].includes(path[0]) ? path[1] : null;
+  } else if (host === "youtu.be") {
+    youtubeId = path[0] ?? null;
+  }
+  if (youtubeId && /^[\w-]{11}$/.test(youtubeId)) return { kind: "youtube", id: youtubeId, url };
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = path.find((part) => /^\d+$/.test(part));
+    if (id) return { kind: "vimeo", id, url };
+  }
+  return null;
+}
+
+// プレーヤーの初期表示のURL
+export function videoEmbedUrl(video: VideoEmbed): string {
+  switch (video.kind) {
+    case "file":
+      return video.src;
+    case "youtube":
+      return `https://www.youtube-nocookie.com/embed/${video.id}`;
+    case "vimeo":
+      return `https://player.vimeo.com/video/${video.id}`;
+  }
+}
+
+// プレーヤーを指定時刻から再生するURL（タイムスタンプのリンク先）
+export function videoSeekUrl(video: VideoEmbed, seconds: number): string {
+  const t = Math.floor(seconds);
+  switch (video.kind) {
+    // フラグメントだけが違うURLではiframeが読み込み直されず時刻が変わらないので、時刻をクエリにも入れる
+    case "file":
+      // メディアフラグメント（#t=秒）
+      return `${video.src}${video.src.includes("?") ? "&" : "?"}t=${t}#t=${t}`;
+    case "youtube":
+      return `https://www.youtube-nocookie.com/embed/${video.id}?start=${t}&autoplay=1`;
+    case "vimeo":
+      return `https://player.vimeo.com/video/${video.id}?autoplay=1&t=${t}#t=${t}s`;
+  }
+}
+
+// 動画サイトで指定時刻から開くURL（Markdown用。動画ファイルはnull）
+export function videoWatchUrl(video: VideoEmbed, seconds: number): string | null {
+  const t = Math.floor(seconds);
+  switch (video.kind) {
+    case "file":
+      return null;
+    case "youtube":
+      return `https://www.youtube.com/watch?v=${video.id}&t=${t}s`;
+    case "vimeo":
+      return `https://vimeo.com/${video.id}#t=${t}s`;
+  }
+}
+
+// --video の値（YouTube / Vimeo のURL、または記事からの動画ファイルの相対パス）
+export function resolveVideoEmbed(value: string): VideoEmbed {
+  if (/^https?:\/\//i.test(value)) {
+    const video = parseVideoUrl(value);
+    if (!video) throw new Error(`YouTube / Vimeo の動画のURLではありません: ${value}`);
+    return video;
+  }
+  return { kind: "file", src: value };
+}
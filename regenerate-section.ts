@@ -0,0 +1,266 @@
+#!/usr/bin/env npx tsx
+/**
+ * 生成済みの記事の1セクションだけを作り直すスクリプト
+ * - --text:  本文を書き直す（--instruction で「短く、料金に触れる」等の指示）
+ * - --image: フレームを選び直して画像を変換し直す（--frame で指定も可）
+ * 他のセクション・タイトルはそのまま。結果は content.json に保存し、HTML・Markdownを出力し直す
+ */
+
+import "dotenv/config";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { basename, join } from "path";
+import { parseArgs } from "util";
+import {
+  createTextProvider,
+  checkTextProviderCredentials,
+  isTextProviderName,
+  TEXT_PROVIDERS,
+  type TextProvider,
+  type TextProviderOptions,
+} from "./lib/text-provider.js";
+import {
+  createImageBackend,
+  transformWithFallback,
+  sectionImagePrompt,
+  isImageBackendName,
+  IMAGE_BACKENDS,
+  type ImageBackendName,
+} from "./lib/image-backend.js";
+import {
+  generateValidatedJson,
+  readContentFile,
+  validateSectionBody,
+  writeContentFile,
+  CONTENT_FILE,
+  CONTENT_STYLE_GUIDES,
+  type ContentFile,
+} from "./lib/content-schema.js";
+import { readManifest, selectBestFrame, DEFAULT_MIN_FRAME_DISTANCE, type FrameInfo } from "./lib/frames.js";
+import { DEFAULT_ARTICLE_LANGUAGE, languageName } from "./lib/language.js";
+import { createProgressReporter } from "./lib/progress.js";
+import { renderProject } from "./lib/render.js";
+import { loadTheme, DEFAULT_THEME } from "./lib/theme.js";
+import {
+  cuesToTimedText,
+  parseVtt,
+  speakerRequirement,
+  DIRECT_PROMPT_MAX_CHARS,
+  type VttCue,
+} from "./lib/transcript.js";
+
+const reportProgress = createProgressReporter({ regenerate: 1 });
+
+// セクションが扱う区間の文字起こし（次のセクションの開始時刻まで）
+function sectionTranscript(cues: VttCue[], file: ContentFile, index: number): string {
+  const { startTime } = file.content.sections[index];
+  const next = file.content.sections
+    .map((section) => section.startTime)
+    .filter((time) => time > startTime)
+    .reduce((min, time) => Math.min(min, time), Infinity);
+
+  let range = cues.filter((cue) => cue.startTime >= startTime && cue.startTime < next);
+  if (range.length === 0) {
+    // 開始時刻を編集した等で区間に発言がなければ前後1分を使う
+    range = cues.filter((cue) => Math.abs(cue.startTime - startTime) <= 60);
+  }
+  return cuesToTimedText(range).slice(0, DIRECT_PROMPT_MAX_CHARS);
+}
+
+async function regenerateText(
+  provider: TextProvider,
+  file: ContentFile,
+  index: number,
+  cues: VttCue[],
+  instruction?: string
+): Promise<string> {
+  const { content } = file;
+  const section = content.sections[index];
+  const language = content.language ?? DEFAULT_ARTICLE_LANGUAGE;
+  console.log(`本文を書き直し中（${provider.name}: ${provider.model}）...`);
+
+  const outline = content.sections
+    .map((s, i) => `${i + 1}. ${s.heading}${i === index ? "  ← このセクション" : ""}`)
+    .join("\n");
+
+  const prompt = `動画から作った記事「${content.title}」（${CONTENT_STYLE_GUIDES[content.type]}）のうち、1つのセクションの本文だけを書き直してください。
+
+要件:
+- 本文は${languageName(language)}（${language}）で書く
+- 見出し「${section.heading}」の内容に沿い、他のセクションと内容を重複させない
+- 分量は今の本文と同程度${instruction ? "（指示があればそれに従う）" : ""}
+- 事実は下の文字起こしに基づく${speakerRequirement(cues)}
+${instruction ? `\n指示: ${instruction}\n` : ""}
+記事の構成:
+${outline}
+
+今の本文:
+${section.body}
+
+このセクションの区間の文字起こし（各行の先頭の [数字] は発言の開始時刻・秒）:
+${sectionTranscript(cues, file, index)}
+
+次の形式のJSONのみを出力:
+{
+  "body": "本文（HTMLタグ可: p, strong, em, ul, ol, li, a, code, blockquote 等。script・style・img は不可）"
+}
+
+JSON:`;
+
+  return generateValidatedJson(provider, prompt, validateSectionBody);
+}
+
+// 他のセクションのフレーム・今のフレームと見た目が異なるフレームを選ぶ
+function pickFrame(frames: FrameInfo[], file: ContentFile, index: number, minDistance: number): FrameInfo {
+  const byFile = new Map(frames.map((frame) => [frame.file, frame]));
+  const exclude = file.sections
+    .map((assets) => (assets.frame ? byFile.get(assets.frame) : undefined))
+    .filter((frame): frame is FrameInfo => frame !== undefined);
+  const current = file.sections[index].frame;
+  const candidates = frames.filter((frame) => frame.file !== current);
+  if (candidates.length === 0) throw new Error("選び直せるフレームがありません");
+  return selectBestFrame(candidates, file.content.sections[index].startTime, { exclude, minDistance });
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      text: { type: "boolean", default: false },
+      image: { type: "boolean", default: false },
+      instruction: { type: "string" },
+      frame: { type: "string" },
+      vtt: { type: "string" },
+      frames: { type: "string" },
+      provider: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      "image-backend": { type: "string" },
+      "image-model": { type: "string" },
+      "min-frame-distance": { type: "string", default: String(DEFAULT_MIN_FRAME_DISTANCE) },
+      theme: { type: "string", default: DEFAULT_THEME },
+    },
+    allowPositionals: true,
+  });
+  const [projectDir, sectionArg] = positionals;
+
+  if (!projectDir || !sectionArg || values.text === values.image) {
+    console.log("使い方: npx tsx regenerate-section.ts <project_dir> <セクション番号> (--text | --image) [オプション]");
+    console.log("\nオプション:");
+    console.log("  --text                本文を書き直す");
+    console.log("  --image               フレームを選び直して画像を変換し直す");
+    console.log("  --instruction <text>  追加の指示（例: \"短く、料金に触れる\"）");
+    console.log("  --frame <file>        使うフレーム（--image のみ。既定: 他のセクションと異なるフレームを自動で選ぶ）");
+    console.log("  --vtt <path>          文字起こし（既定: <project_dir>/video.vtt）");
+    console.log("  --frames <dir>        フレームのディレクトリ（既定: <project_dir>/frames）");
+    console.log(`  --provider <${TEXT_PROVIDERS.join("|")}>  テキスト生成プロバイダ（既定: TEXT_PROVIDER または gemini）`);
+    console.log("  --model <name>        モデル名");
+    console.log("  --base-url <url>      OpenAI互換エンドポイントのURL（openai/local）");
+    console.log(`  --image-backend <${IMAGE_BACKENDS.join("|")}>  画像変換バックエンド（既定: IMAGE_BACKEND）`);
+    console.log("  --image-model <name>  画像モデル名（gemini/openai）");
+    console.log(`  --min-frame-distance <0-64>  他のセクションのフレームとの最小ハッシュ距離（既定: ${DEFAULT_MIN_FRAME_DISTANCE}）`);
+    console.log(`  --theme <name>        HTMLのテーマ（既定: ${DEFAULT_THEME}）`);
+    process.exit(1);
+  }
+
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    console.error(`エラー: ${CONTENT_FILE} がありません。先にHTML生成（generate-html.ts）を実行してください: ${projectDir}`);
+    process.exit(1);
+  }
+  const file = readContentFile(projectDir);
+  const sectionNumber = Number(sectionArg);
+  if (!Number.isInteger(sectionNumber) || sectionNumber < 1 || sectionNumber > file.content.sections.length) {
+    console.error(`エラー: セクション番号は1〜${file.content.sections.length}を指定してください`);
+    process.exit(1);
+  }
+  const index = sectionNumber - 1;
+  const section = file.content.sections[index];
+  const theme = loadTheme(values.theme);
+  console.log(`セクション ${sectionNumber}: ${section.heading}`);
+
+  if (values.text) {
+    if (values.provider && !isTextProviderName(values.provider)) {
+      console.error(`エラー: 不明なプロバイダ: ${values.provider}`);
+      process.exit(1);
+    }
+    const providerOptions: TextProviderOptions = {
+      provider: values.provider as TextProviderOptions["provider"],
+      model: values.model,
+      baseUrl: values["base-url"],
+    };
+    const credentialError = checkTextProviderCredentials(providerOptions);
+    if (credentialError) {
+      console.error(`エラー: ${credentialError}`);
+      process.exit(1);
+    }
+
+    const vttPath = values.vtt ?? join(projectDir, "video.vtt");
+    if (!existsSync(vttPath)) {
+      console.error(`エラー: 文字起こしが見つかりません: ${vttPath}`);
+      process.exit(1);
+    }
+
+    reportProgress("regenerate", 0, "本文の書き直し");
+    const cues = parseVtt(readFileSync(vttPath, "utf-8"));
+    section.body = await regenerateText(createTextProvider(providerOptions), file, index, cues, values.instruction);
+    reportProgress("regenerate", 0.9, "本文の書き直し");
+  } else {
+    if (values["image-backend"] && !isImageBackendName(values["image-backend"])) {
+      console.error(`エラー: 不明な画像バックエンド: ${values["image-backend"]}`);
+      process.exit(1);
+    }
+    const minFrameDistance = parseInt(values["min-frame-distance"]!, 10);
+    if (!(minFrameDistance >= 0 && minFrameDistance <= 64)) {
+      console.error("エラー: --min-frame-distance は0〜64を指定してください");
+      process.exit(1);
+    }
+
+    const framesDir = values.frames ?? join(projectDir, "frames");
+    const { frames } = readManifest(framesDir);
+    const frame = values.frame
+      ? frames.find((f) => f.file === values.frame)
+      : pickFrame(frames, file, index, minFrameDistance);
+    if (!frame) {
+      console.error(`エラー: フレームが見つかりません: ${values.frame}`);
+      process.exit(1);
+    }
+    console.log(`  選定: ${frame.file}`);
+
+    const imageBackend = createImageBackend({
+      backend: values["image-backend"] as ImageBackendName | undefined,
+      model: values["image-model"],
+    });
+    reportProgress("regenerate", 0, "画像の変換");
+
+    // 並べ替えた後でも他のセクションの画像と重ならない名前にする
+    const image = `output/section_${sectionNumber}_${Date.now().toString(36)}.png`;
+    // 記事エディタで追加したセクションには画像生成プロンプトがないので見出しを使う
+    const imagePrompt = section.imagePrompt || section.heading;
+    console.log(`  変換中: ${imagePrompt}`);
+    const result = await transformWithFallback(
+      imageBackend,
+      join(framesDir, frame.file),
+      sectionImagePrompt(imagePrompt, values.instruction),
+      join(projectDir, image)
+    );
+    console.log(`  → ${basename(image)} (${result.backend})`);
+
+    const previous = file.sections[index].image;
+    file.sections[index] = { frame: frame.file, image, imageBackend: result.backend, imageFallback: result.fallbackError };
+    if (previous && !file.sections.some((assets) => assets.image === previous)) {
+      rmSync(join(projectDir, previous), { force: true });
+    }
+    reportProgress("regenerate", 0.9, "画像の変換");
+  }
+
+  writeContentFile(projectDir, file);
+  const { htmlPath, markdownPath } = renderProject(projectDir, file, { theme });
+  reportProgress("regenerate", 1, "再描画");
+
+  console.log(`\n完了！`);
+  console.log(`出力: ${htmlPath}`);
+  console.log(`Markdown: ${markdownPath}`);
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+#!/usr/bin/env npx tsx
+/**
+ * 保存済みの生成結果（content.json）からHTML・Markdown・チャプターを出力し直すスクリプト
+ * テキスト生成・画像変換は行わない（ネットワークを使わない）ので、テーマ・画像パス・埋め込む動画の変更をすぐに反映できる
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { CONTENT_FILE, readContentFile, writeContentFile } from "./lib/content-schema.js";
+import { DEFAULT_IMAGE_BASE } from "./lib/markdown.js";
+import { createProgressReporter } from "./lib/progress.js";
+import { renderProject } from "./lib/render.js";
+import { YOUTUBE_MIN_CHAPTERS, YOUTUBE_MIN_CHAPTER_SECONDS } from "./lib/chapters.js";
+import { loadTheme, DEFAULT_THEME } from "./lib/theme.js";
+import { resolveVideoEmbed } from "./lib/video-embed.js";
+
+const reportProgress = createProgressReporter({ render: 1 });
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      theme: { type: "string", default: DEFAULT_THEME },
+      "image-base": { type: "string" },
+      source: { type: "string" },
+      video: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [projectDir] = positionals;
+
+  if (!projectDir) {
+    console.log("使い方: npx tsx render.ts <project_dir> [オプション]");
+    console.log("\nオプション:");
+    console.log(`  --theme <name>        HTMLのテーマ（THEMES_DIR内のディレクトリ名、既定: ${DEFAULT_THEME}）`);
+    console.log(`  --image-base <path>   Markdown内の画像パスの基点（既定: 生成時の値、なければ ${DEFAULT_IMAGE_BASE}）`);
+    console.log("  --source <name>       フロントマターに記録する元動画名（既定: 生成時の値）");
+    console.log("  --video <path|url|none>  記事に埋め込む動画（動画ファイルの相対パス、YouTube / Vimeo のURL、none で埋め込まない。既定: 生成時の値）");
+    process.exit(1);
+  }
+
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    console.error(`エラー: ${CONTENT_FILE} がありません。先にHTML生成（generate-html.ts）を実行してください: ${projectDir}`);
+    process.exit(1);
+  }
+
+  const theme = loadTheme(values.theme);
+  const file = readContentFile(projectDir);
+  if (values.video) {
+    // 埋め込む動画の変更は content.json にも保存する（以降の編集・再生成でも使う）
+    file.video = values.video === "none" ? undefined : resolveVideoEmbed(values.video);
+    writeContentFile(projectDir, file);
+  }
+  const missing = file.sections.map((s) => s.image).filter((image) => !existsSync(join(projectDir, image)));
+  if (missing.length > 0) {
+    console.warn(`警告: 画像が見つかりません: ${missing.join(", ")}`);
+  }
+
+  reportProgress("render", 0, "再描画");
+  const { htmlPath, markdownPath, chaptersVttPath, youtubeChaptersPath } = renderProject(projectDir, file, {
+    theme,
+    imageBase: values["image-base"],
+    source: values.source,
+  });
+  reportProgress("render", 1, "再描画");
+
+  console.log(`再描画しました: ${file.content.title}（${file.content.sections.length}セクション, テーマ: ${theme.name}）`);
+  console.log(`出力: ${htmlPath}`);
+  console.log(`Markdown: ${markdownPath}`);
+  console.log(`チャプター: ${chaptersVttPath ?? "なし（動画長が不明）"}`);
+  console.log(
+    `YouTubeのチャプター: ${youtubeChaptersPath ?? `なし（${YOUTUBE_MIN_CHAPTERS}つ以上・各${YOUTUBE_MIN_CHAPTER_SECONDS}秒以上の条件を満たさない）`}`
+  );
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
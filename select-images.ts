@@ -5,9 +5,9 @@
  * - シャープネス・明るさでスコアリング
  */
 
-import { readdirSync, mkdirSync, copyFileSync } from "fs";
+import { mkdirSync, copyFileSync } from "fs";
 import { join, basename } from "path";
-import sharp from "sharp";
+import { readManifest, type FrameInfo } from "./lib/frames.js";
 
 interface ImageScore {
   path: string;
@@ -16,29 +16,9 @@ interface ImageScore {
   score: number;
 }
 
-async function analyzeImage(imagePath: string): Promise<ImageScore> {
-  const image = sharp(imagePath);
-  const { data, info } = await image
-    .greyscale()
-    .raw()
-    .toBuffer({ resolveWithObject: true });
-
-  // 明るさ（平均輝度）
-  let sum = 0;
-  for (let i = 0; i < data.length; i++) {
-    sum += data[i];
-  }
-  const brightness = sum / data.length / 255;
-
-  // シャープネス（ラプラシアン分散の近似）
-  let variance = 0;
-  const width = info.width;
-  for (let i = 1; i < data.length - 1; i++) {
-    if (i % width === 0 || i % width === width - 1) continue;
-    const laplacian = -4 * data[i] + data[i - 1] + data[i + 1] + data[i - width] + data[i + width];
-    variance += laplacian * laplacian;
-  }
-  const sharpness = Math.sqrt(variance / data.length) / 255;
+// マニフェストの画像指標からスコアを計算
+function scoreFrame(framesDir: string, frame: FrameInfo): ImageScore {
+  const { sharpness, brightness } = frame;
 
   // スコア計算
   // - 明るさは0.3-0.7が理想
@@ -46,7 +26,7 @@ async function analyzeImage(imagePath: string): Promise<ImageScore> {
   const brightnessPenalty = Math.abs(brightness - 0.5) * 2;
   const score = sharpness * (1 - brightnessPenalty);
 
-  return { path: imagePath, sharpness, brightness, score };
+  return { path: join(framesDir, frame.file), sharpness, brightness, score };
 }
 
 async function selectBestImages(
@@ -56,36 +36,24 @@ async function selectBestImages(
 ): Promise<string[]> {
   console.log(`画像分析中: ${framesDir}`);
 
-  // 画像一覧取得
-  const files = readdirSync(framesDir)
-    .filter((f) => f.endsWith(".jpg"))
-    .sort()
-    .map((f) => join(framesDir, f));
+  // 画像一覧取得（マニフェストの画像指標を使う）
+  const { frames } = readManifest(framesDir);
 
-  if (files.length === 0) {
+  if (frames.length === 0) {
     throw new Error("画像が見つかりません");
   }
 
-  console.log(`対象画像: ${files.length}枚`);
+  console.log(`対象画像: ${frames.length}枚`);
 
-  // 全画像を分析
-  const scores: ImageScore[] = [];
-  for (let i = 0; i < files.length; i++) {
-    if (i % 10 === 0) {
-      process.stdout.write(`\r分析中: ${i + 1}/${files.length}`);
-    }
-    const score = await analyzeImage(files[i]);
-    scores.push(score);
-  }
-  console.log(`\r分析完了: ${files.length}枚`);
+  const scores = frames.map((frame) => scoreFrame(framesDir, frame));
 
   // 時間的にnumImages個のグループに分割
-  const groupSize = Math.ceil(files.length / numImages);
+  const groupSize = Math.ceil(scores.length / numImages);
   const selected: string[] = [];
 
   for (let g = 0; g < numImages; g++) {
     const start = g * groupSize;
-    const end = Math.min(start + groupSize, files.length);
+    const end = Math.min(start + groupSize, scores.length);
     const group = scores.slice(start, end);
 
     // グループ内で最高スコアの画像を選出
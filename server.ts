@@ -10,16 +10,17 @@ import { serve } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { streamSSE } from "hono/streaming";
 import { cors } from "hono/cors";
-import { spawn } from "child_process";
 import {
   existsSync,
   mkdirSync,
   rmSync,
   readdirSync,
   readFileSync,
+  writeFileSync,
   createWriteStream,
 } from "fs";
-import { join, dirname } from "path";
+import { join } from "path";
+import { Readable } from "stream";
 import archiver from "archiver";
 import { randomUUID } from "crypto";
 import {
@@ -30,42 +31,84 @@ import {
   createProject,
   updateProject,
   deleteProject,
+  getActiveJob,
+  getActiveJobs,
+  getJob,
+  getProjectJobs,
   PROJECTS_DIR,
 } from "./db/index.js";
+import type { Project } from "./db/schema.js";
+import { isTextProviderName } from "./lib/text-provider.js";
+import { isImageBackendName } from "./lib/image-backend.js";
+import { parseLengthSetting } from "./lib/article-length.js";
+import { buildHTML, isThemeName, listThemes, loadTheme, DEFAULT_THEME } from "./lib/theme.js";
+import { isLanguageCode, isLanguageSetting, AUTO_LANGUAGE } from "./lib/language.js";
+import { captionsToVtt, isCaptionFormat, parseCaptions } from "./lib/captions.js";
+import { cuesToVtt, parseVtt, readVttLanguage, setVttLanguage, validateCues } from "./lib/transcript.js";
+import {
+  isTranscriptionBackendName,
+  resolveTranscriptionBackendName,
+  validateTranscriptionModel,
+} from "./lib/transcription-backend.js";
+import { contentImages, readContentFile, writeContentFile, CONTENT_FILE } from "./lib/content-schema.js";
+import { applyContentEdit, validateContentEdit } from "./lib/content-edit.js";
+import {
+  framesNear,
+  frameSeconds,
+  isExtractMode,
+  readManifest,
+  validateSceneDetectionSettings,
+  DEFAULT_MAX_FRAMES,
+  DEFAULT_MIN_FRAMES,
+  DEFAULT_SCENE_THRESHOLD,
+  MANIFEST_FILE,
+} from "./lib/frames.js";
+import { renderProject } from "./lib/render.js";
+import {
+  CHAPTERS_TEXT_FILE,
+  CHAPTERS_VTT_FILE,
+  YOUTUBE_MIN_CHAPTERS,
+  YOUTUBE_MIN_CHAPTER_SECONDS,
+} from "./lib/chapters.js";
+import { parseVideoUrl } from "./lib/video-embed.js";
+import {
+  graphemeLength,
+  readSocialFile,
+  sectionImage,
+  xWeightedLength,
+  BLUESKY_MAX_GRAPHEMES,
+  X_MAX_WEIGHT,
+  type SocialImagePost,
+} from "./lib/social.js";
+import { GENERATED_HTML_CSP, sanitizeHtml } from "./lib/sanitize.js";
+import { isSectionTarget, isStep, requiresContent, runStep, SECTION_STEPS } from "./lib/pipeline.js";
+import {
+  cancelJob,
+  enqueueJob,
+  isTerminalMessage,
+  startWorker,
+  subscribeJob,
+  JobConflictError,
+  type JobMessage,
+} from "./lib/jobs.js";
 
 const app = new Hono();
 
 // CORSを有効化
 app.use("*", cors());
 
-// スクリプト実行（ストリーミング出力付き）
-function runScript(
-  script: string,
-  args: string[],
-  onOutput: (data: string) => void
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn("npx", ["tsx", script, ...args], {
-      cwd: dirname(new URL(import.meta.url).pathname),
-    });
-
-    proc.stdout.on("data", (data) => onOutput(data.toString()));
-    proc.stderr.on("data", (data) => onOutput(data.toString()));
-
-    proc.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`${script} failed with code ${code}`));
-    });
-    proc.on("error", reject);
-  });
-}
-
 // ===== API Routes =====
 
-// プロジェクト一覧
+// プロジェクト一覧（実行中・待機中のジョブIDを付与）
 app.get("/api/projects", async (c) => {
   const projects = await getAllProjects();
-  return c.json(projects);
+  const activeJobs = await getActiveJobs();
+  return c.json(
+    projects.map((p) => ({
+      ...p,
+      activeJobId: activeJobs.find((j) => j.projectId === p.id)?.id ?? null,
+    }))
+  );
 });
 
 // プロジェクト詳細
@@ -77,6 +120,117 @@ app.get("/api/projects/:id", async (c) => {
   return c.json(project);
 });
 
+// 文字起こしのモデルを、使われるバックエンド（指定 > プロジェクト設定 > TRANSCRIPTION_BACKEND）に合わせて検証する
+function checkTranscriptionModel(backend: string | null | undefined, model: string): string | null {
+  try {
+    const name = resolveTranscriptionBackendName(backend && isTranscriptionBackendName(backend) ? backend : undefined);
+    return validateTranscriptionModel(name, model);
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+// プロジェクト設定の更新
+app.patch("/api/projects/:id", async (c) => {
+  const id = c.req.param("id");
+  const project = await getProject(id);
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+
+  const body = await c.req.json<{
+    textProvider?: string | null;
+    textModel?: string | null;
+    imageBackend?: string | null;
+    theme?: string | null;
+    sectionCount?: number | "auto" | null;
+    sectionWords?: number | "auto" | null;
+    totalWords?: number | "auto" | null;
+    transcriptionLanguage?: string | null;
+    articleLanguage?: string | null;
+    transcriptionBackend?: string | null;
+    transcriptionModel?: string | null;
+    videoEmbed?: string | null;
+    videoUrl?: string | null;
+  } | null>().catch(() => null);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return c.json({ error: "ボディは設定のJSONオブジェクトにしてください" }, 400);
+  }
+  const data: Partial<Project> = {};
+
+  if (body.textProvider !== undefined) {
+    if (body.textProvider !== null && !isTextProviderName(body.textProvider)) {
+      return c.json({ error: `不明なプロバイダ: ${body.textProvider}` }, 400);
+    }
+    data.textProvider = body.textProvider;
+  }
+  if (body.textModel !== undefined) {
+    data.textModel = body.textModel || null;
+  }
+  if (body.imageBackend !== undefined) {
+    if (body.imageBackend !== null && !isImageBackendName(body.imageBackend)) {
+      return c.json({ error: `不明な画像バックエンド: ${body.imageBackend}` }, 400);
+    }
+    data.imageBackend = body.imageBackend;
+  }
+  if (body.transcriptionBackend !== undefined) {
+    if (body.transcriptionBackend !== null && !isTranscriptionBackendName(body.transcriptionBackend)) {
+      return c.json({ error: `不明な文字起こしバックエンド: ${body.transcriptionBackend}` }, 400);
+    }
+    data.transcriptionBackend = body.transcriptionBackend;
+  }
+  if (body.transcriptionModel !== undefined) {
+    if (body.transcriptionModel) {
+      const backend = body.transcriptionBackend !== undefined ? body.transcriptionBackend : project.transcriptionBackend;
+      const modelError = checkTranscriptionModel(backend, body.transcriptionModel);
+      if (modelError) return c.json({ error: modelError }, 400);
+    }
+    data.transcriptionModel = body.transcriptionModel || null;
+  }
+  if (body.theme !== undefined) {
+    if (body.theme !== null && !isThemeName(body.theme)) {
+      return c.json({ error: `不明なテーマ: ${body.theme}` }, 400);
+    }
+    data.theme = body.theme;
+  }
+  // 記事の構成（"auto" / null は自動決定）
+  for (const key of ["sectionCount", "sectionWords", "totalWords"] as const) {
+    if (body[key] === undefined) continue;
+    const setting = parseLengthSetting(body[key]);
+    if (setting === null) {
+      return c.json({ error: `${key} には正の整数または auto を指定してください` }, 400);
+    }
+    data[key] = typeof setting === "number" ? setting : null;
+  }
+  // 言語（"auto" / null は自動判定）
+  for (const key of ["transcriptionLanguage", "articleLanguage"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (value !== null && !isLanguageSetting(value)) {
+      return c.json({ error: `${key} には言語コード（ja, en 等）または auto を指定してください` }, 400);
+    }
+    data[key] = value === AUTO_LANGUAGE ? null : value;
+  }
+  // 記事に埋め込む動画（反映するには再描画する）
+  if (body.videoUrl !== undefined) {
+    if (body.videoUrl && !parseVideoUrl(body.videoUrl)) {
+      return c.json({ error: `YouTube / Vimeo の動画のURLではありません: ${body.videoUrl}` }, 400);
+    }
+    data.videoUrl = body.videoUrl || null;
+  }
+  if (body.videoEmbed !== undefined) {
+    if (body.videoEmbed !== null && body.videoEmbed !== "file" && body.videoEmbed !== "url") {
+      return c.json({ error: "videoEmbed には file / url / null を指定してください" }, 400);
+    }
+    if (body.videoEmbed === "url" && !(data.videoUrl ?? project.videoUrl)) {
+      return c.json({ error: "videoEmbed を url にするには videoUrl を指定してください" }, 400);
+    }
+    data.videoEmbed = body.videoEmbed;
+  }
+
+  return c.json(await updateProject(id, data));
+});
+
 // 動画アップロード（新規プロジェクト作成）
 app.post("/api/projects/upload", async (c) => {
   const formData = await c.req.formData();
@@ -125,6 +279,183 @@ app.post("/api/projects/upload", async (c) => {
   return c.json(project);
 });
 
+// 既存の字幕（vtt / srt / json3）を文字起こしとして取り込む
+app.post("/api/projects/:id/captions", async (c) => {
+  const id = c.req.param("id");
+  const project = await getProject(id);
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+
+  const activeJob = await getActiveJob(id);
+  if (activeJob) {
+    return c.json({ error: "このプロジェクトでは既にジョブが実行中です", jobId: activeJob.id }, 409);
+  }
+
+  const formData = await c.req.formData();
+  const file = formData.get("file") as File | null;
+  const format = (formData.get("format") as string | null) || undefined;
+  const language = (formData.get("language") as string | null) || undefined;
+
+  if (!file) {
+    return c.json({ error: "ファイルが指定されていません" }, 400);
+  }
+  if (format !== undefined && !isCaptionFormat(format)) {
+    return c.json({ error: `不明な字幕の形式: ${format}` }, 400);
+  }
+  if (language && !isLanguageCode(language)) {
+    return c.json({ error: "language には言語コード（ja, en 等）を指定してください" }, 400);
+  }
+
+  let captions;
+  try {
+    captions = parseCaptions(await file.text(), { fileName: file.name, format });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 400);
+  }
+
+  const captionsLanguage = language ?? captions.language;
+  writeFileSync(join(getProjectDir(id), "video.vtt"), captionsToVtt(captions, captionsLanguage));
+
+  const updated = await updateProject(id, {
+    transcribeCompleted: true,
+    vttPath: "video.vtt",
+    detectedLanguage: captionsLanguage,
+    transcriptSource: "captions",
+    generateStale: project.generateCompleted,
+    status: "pending",
+    errorMessage: null,
+  });
+  return c.json({ project: updated, format: captions.format, cues: captions.cues.length });
+});
+
+// 文字起こしのキューを取得
+app.get("/api/projects/:id/transcript", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project || !project.vttPath) {
+    return c.json({ error: "文字起こしがありません" }, 404);
+  }
+  const vttPath = join(getProjectDir(project.id), project.vttPath);
+  if (!existsSync(vttPath)) {
+    return c.json({ error: "文字起こしファイルが見つかりません" }, 404);
+  }
+
+  const vtt = readFileSync(vttPath, "utf-8");
+  return c.json({ language: readVttLanguage(vtt), source: project.transcriptSource, cues: parseVtt(vtt) });
+});
+
+// 編集したキューで文字起こしを上書き（生成済みのHTMLは再生成が必要になる）
+app.put("/api/projects/:id/transcript", async (c) => {
+  const id = c.req.param("id");
+  const project = await getProject(id);
+  if (!project || !project.vttPath) {
+    return c.json({ error: "文字起こしがありません" }, 404);
+  }
+
+  const activeJob = await getActiveJob(id);
+  if (activeJob) {
+    return c.json({ error: "このプロジェクトでは既にジョブが実行中です", jobId: activeJob.id }, 409);
+  }
+
+  const body = await c.req.json<{ cues?: unknown }>().catch(() => ({}) as { cues?: unknown });
+  const { cues, errors } = validateCues(body.cues);
+  if (errors.length > 0) {
+    return c.json({ error: errors.join("\n"), errors }, 400);
+  }
+
+  // 言語（VTTヘッダー）はそのまま残す
+  const vttPath = join(getProjectDir(id), project.vttPath);
+  const language = existsSync(vttPath) ? readVttLanguage(readFileSync(vttPath, "utf-8")) : null;
+  const vtt = cuesToVtt(cues);
+  writeFileSync(vttPath, language ? setVttLanguage(vtt, language) : vtt);
+
+  const updated = await updateProject(id, { generateStale: project.generateCompleted });
+  return c.json({ project: updated, cues: cues.length });
+});
+
+// 記事エディタ用の生成結果（本文は画面にそのまま表示できるよう無害化して返す）
+app.get("/api/projects/:id/content", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+  const projectDir = getProjectDir(project.id);
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    return c.json({ error: "生成結果（content.json）がありません。先にHTML生成を実行してください" }, 404);
+  }
+
+  const file = readContentFile(projectDir);
+  const sections = file.content.sections.map((section) => ({ ...section, body: sanitizeHtml(section.body) }));
+  return c.json({ ...file, content: { ...file.content, sections } });
+});
+
+// 記事の編集を保存し、AIを使わずにHTML・Markdownを出力し直す
+app.put("/api/projects/:id/content", async (c) => {
+  const id = c.req.param("id");
+  const project = await getProject(id);
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+  const projectDir = getProjectDir(id);
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    return c.json({ error: "生成結果（content.json）がありません。先にHTML生成を実行してください" }, 404);
+  }
+
+  const activeJob = await getActiveJob(id);
+  if (activeJob) {
+    return c.json({ error: "このプロジェクトでは既にジョブが実行中です", jobId: activeJob.id }, 409);
+  }
+
+  const file = readContentFile(projectDir);
+  const framesDir = join(projectDir, "frames");
+  const manifest = existsSync(join(framesDir, MANIFEST_FILE)) ? readManifest(framesDir) : null;
+  const body = await c.req.json().catch(() => null);
+  const { edit, errors } = validateContentEdit(body, {
+    frames: manifest?.frames.map((frame) => frame.file) ?? [],
+    images: contentImages(file),
+    duration: manifest?.videoDuration,
+  });
+  if (!edit) {
+    return c.json({ error: errors.join("\n"), errors }, 400);
+  }
+
+  const edited = await applyContentEdit(projectDir, file, edit);
+  writeContentFile(projectDir, edited);
+  renderProject(projectDir, edited, { theme: loadTheme(project.theme ?? DEFAULT_THEME) });
+
+  const updated = await updateProject(id, {
+    htmlPath: "video.html",
+    markdownPath: "video.md",
+    contentPath: CONTENT_FILE,
+  });
+  return c.json({ project: updated, sections: edited.sections.length });
+});
+
+// 指定時刻に近い抽出済みフレーム（?near=<秒>&limit=<枚数>）
+app.get("/api/projects/:id/frames", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+  const framesDir = join(getProjectDir(project.id), "frames");
+  if (!existsSync(join(framesDir, MANIFEST_FILE))) {
+    return c.json({ error: "フレームがありません。先にフレーム抽出を実行してください" }, 404);
+  }
+
+  const near = Number(c.req.query("near") ?? 0);
+  const limit = Math.min(Number(c.req.query("limit") ?? 12), 100);
+  if (!Number.isFinite(near) || !(limit > 0)) {
+    return c.json({ error: "near には秒数、limit には正の数を指定してください" }, 400);
+  }
+
+  const frames = framesNear(readManifest(framesDir).frames, near, limit).map((frame) => ({
+    file: frame.file,
+    time: frameSeconds(frame),
+    url: `/data/projects/${project.id}/frames/${frame.file}`,
+  }));
+  return c.json({ frames });
+});
+
 // プロジェクト削除
 app.delete("/api/projects/:id", async (c) => {
   const id = c.req.param("id");
@@ -134,6 +465,10 @@ app.delete("/api/projects/:id", async (c) => {
     return c.json({ error: "プロジェクトが見つかりません" }, 404);
   }
 
+  // 実行中のジョブを停止してから削除
+  const activeJob = await getActiveJob(id);
+  if (activeJob) await cancelJob(activeJob.id);
+
   // ディレクトリ削除
   const projectDir = getProjectDir(id);
   if (existsSync(projectDir)) {
@@ -146,8 +481,54 @@ app.delete("/api/projects/:id", async (c) => {
   return c.json({ success: true });
 });
 
-// ステップ実行（SSE）
-app.get("/api/projects/:id/run/:step", async (c) => {
+// ステップ実行時のオプション
+interface RunOptionsBody {
+  // generate
+  provider?: string;
+  model?: string;
+  imageBackend?: string;
+  minFrameDistance?: number;
+  sections?: number | "auto";
+  sectionWords?: number | "auto";
+  totalWords?: number;
+  imageBase?: string; // Markdown内の画像パスの基点
+  theme?: string;
+  articleLanguage?: string;
+  // transcribe
+  language?: string;
+  transcriptionBackend?: string;
+  transcriptionModel?: string; // モデルサイズ（small 等）またはモデル名
+  // extract
+  extractMode?: string;
+  sceneThreshold?: number;
+  minFrames?: number;
+  maxFrames?: number;
+  dedupThreshold?: number;
+}
+
+const RUN_OPTION_KEYS: (keyof RunOptionsBody)[] = [
+  "provider",
+  "model",
+  "imageBackend",
+  "minFrameDistance",
+  "sections",
+  "sectionWords",
+  "totalWords",
+  "imageBase",
+  "theme",
+  "articleLanguage",
+  "language",
+  "transcriptionBackend",
+  "transcriptionModel",
+  "extractMode",
+  "sceneThreshold",
+  "minFrames",
+  "maxFrames",
+  "dedupThreshold",
+];
+
+// ステップ実行（ジョブとしてキューに追加）
+app.post("/api/projects/:id/run/:step", async (c) => {
   const id = c.req.param("id");
   const step = c.req.param("step");
 
@@ -156,133 +537,349 @@ app.get("/api/projects/:id/run/:step", async (c) => {
     return c.json({ error: "プロジェクトが見つかりません" }, 404);
   }
 
-  const projectDir = getProjectDir(id);
-  const videoPath = join(projectDir, "video.mp4");
+  if (!isStep(step)) {
+    return c.json({ error: `不明なステップ: ${step}` }, 400);
+  }
 
-  if (!existsSync(videoPath)) {
+  // 再描画・SNS投稿の生成は保存済みの生成結果（content.json）だけを使う
+  if (requiresContent(step)) {
+    if (!existsSync(join(getProjectDir(id), CONTENT_FILE))) {
+      return c.json({ error: "生成結果（content.json）がありません。先にHTML生成を実行してください" }, 400);
+    }
+  } else if (!existsSync(join(getProjectDir(id), "video.mp4"))) {
     return c.json({ error: "動画ファイルが見つかりません" }, 404);
   }
 
-  return streamSSE(c, async (stream) => {
-    const sendMessage = async (type: string, data: string) => {
-      await stream.writeSSE({
-        data: JSON.stringify({ type, data }),
-        event: "message",
-      });
-    };
+  // 実行時オプション（プロジェクト設定を上書き）
+  const body = await c.req.json<RunOptionsBody>().catch(() => ({}) as RunOptionsBody);
 
-    try {
-      const vttPath = join(projectDir, "video.vtt");
-      const framesDir = join(projectDir, "frames");
-
-      switch (step) {
-        case "transcribe":
-          await updateProject(id, { status: "transcribing" });
-          await sendMessage("status", "文字起こし開始...");
-          await runScript("transcribe.ts", [videoPath], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, {
-            transcribeCompleted: true,
-            vttPath: "video.vtt",
-            wavPath: "video.wav",
-            status: "pending",
-          });
-          await sendMessage("status", "文字起こし完了");
-          break;
-
-        case "extract":
-          await updateProject(id, { status: "extracting" });
-          await sendMessage("status", "フレーム抽出開始...");
-          await runScript("extract-frames.ts", [videoPath, "100"], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, {
-            extractCompleted: true,
-            status: "pending",
-          });
-          await sendMessage("status", "フレーム抽出完了");
-          break;
-
-        case "generate":
-          await updateProject(id, { status: "generating" });
-          await sendMessage("status", "HTML生成開始...");
-          await runScript("generate-html.ts", [vttPath, framesDir], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, {
-            generateCompleted: true,
-            htmlPath: "video.html",
-            status: "completed",
-          });
-          await sendMessage("status", "HTML生成完了");
-          break;
-
-        case "all":
-          // 全ステップ実行
-          await updateProject(id, { status: "transcribing" });
-          await sendMessage("status", "処理開始: 文字起こし...");
-          await runScript("transcribe.ts", [videoPath], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, {
-            transcribeCompleted: true,
-            vttPath: "video.vtt",
-            wavPath: "video.wav",
-          });
-          await sendMessage("progress", "33");
-
-          await updateProject(id, { status: "extracting" });
-          await sendMessage("status", "処理中: フレーム抽出...");
-          await runScript("extract-frames.ts", [videoPath, "100"], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, { extractCompleted: true });
-          await sendMessage("progress", "66");
-
-          await updateProject(id, { status: "generating" });
-          await sendMessage("status", "処理中: HTML生成...");
-          await runScript("generate-html.ts", [vttPath, framesDir], (data) => {
-            sendMessage("output", data);
-          });
-          await updateProject(id, {
-            generateCompleted: true,
-            htmlPath: "video.html",
-            status: "completed",
-          });
-          await sendMessage("progress", "100");
-          await sendMessage("status", "全処理完了！");
-          break;
-
-        default:
-          await sendMessage("error", `不明なステップ: ${step}`);
-      }
+  if (body.provider && !isTextProviderName(body.provider)) {
+    return c.json({ error: `不明なプロバイダ: ${body.provider}` }, 400);
+  }
+  if (body.imageBackend && !isImageBackendName(body.imageBackend)) {
+    return c.json({ error: `不明な画像バックエンド: ${body.imageBackend}` }, 400);
+  }
+  if (body.theme && !isThemeName(body.theme)) {
+    return c.json({ error: `不明なテーマ: ${body.theme}` }, 400);
+  }
+  if (body.transcriptionBackend && !isTranscriptionBackendName(body.transcriptionBackend)) {
+    return c.json({ error: `不明な文字起こしバックエンド: ${body.transcriptionBackend}` }, 400);
+  }
+  if (body.transcriptionModel) {
+    const modelError = checkTranscriptionModel(body.transcriptionBackend || project.transcriptionBackend, body.transcriptionModel);
+    if (modelError) return c.json({ error: modelError }, 400);
+  }
+  for (const key of ["language", "articleLanguage"] as const) {
+    if (body[key] && !isLanguageSetting(body[key])) {
+      return c.json({ error: `${key} には言語コード（ja, en 等）または auto を指定してください` }, 400);
+    }
+  }
+  if (body.extractMode && !isExtractMode(body.extractMode)) {
+    return c.json({ error: `不明な抽出モード: ${body.extractMode}` }, 400);
+  }
+  // 省略した値はスクリプトの既定値で検証する（maxFrames だけを minFrames の既定値より小さくした場合など）
+  if (body.sceneThreshold !== undefined || body.minFrames !== undefined || body.maxFrames !== undefined) {
+    const settingsError = validateSceneDetectionSettings({
+      sceneThreshold: Number(body.sceneThreshold ?? DEFAULT_SCENE_THRESHOLD),
+      minFrames: Number(body.minFrames ?? DEFAULT_MIN_FRAMES),
+      maxFrames: Number(body.maxFrames ?? DEFAULT_MAX_FRAMES),
+    });
+    if (settingsError) return c.json({ error: settingsError }, 400);
+  }
+  for (const key of ["sections", "sectionWords", "totalWords"] as const) {
+    if (parseLengthSetting(body[key]) === null) {
+      return c.json({ error: `${key} には正の整数または auto を指定してください` }, 400);
+    }
+  }
+  for (const key of ["dedupThreshold", "minFrameDistance"] as const) {
+    const value = Number(body[key]);
+    if (body[key] !== undefined && !(Number.isInteger(value) && value >= 0 && value <= 64)) {
+      return c.json({ error: `${key} には0〜64の整数を指定してください` }, 400);
+    }
+  }
 
-      await sendMessage("done", "完了");
-    } catch (err) {
-      await updateProject(id, {
-        status: "error",
-        errorMessage: (err as Error).message,
-      });
-      await sendMessage("error", (err as Error).message);
+  const options: Record<string, string> = {};
+  for (const key of RUN_OPTION_KEYS) {
+    const value = body[key];
+    if (value !== undefined && value !== null && value !== "") options[key] = String(value);
+  }
+
+  try {
+    const job = await enqueueJob(id, step, options);
+    return c.json({ jobId: job.id, job }, 202);
+  } catch (err) {
+    if (err instanceof JobConflictError) {
+      return c.json({ error: err.message, jobId: err.job.id }, 409);
+    }
+    throw err;
+  }
+});
+
+// セクションの再生成で指定できるオプション
+const SECTION_OPTION_KEYS = ["instruction", "frame", "provider", "model", "imageBackend"] as const;
+
+// 1セクションだけ再生成するジョブを追加（target: text = 本文の書き直し、image = フレームの選び直しと画像の変換）
+app.post("/api/projects/:id/sections/:number/:target", async (c) => {
+  const id = c.req.param("id");
+  const target = c.req.param("target");
+  const project = await getProject(id);
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+  if (!isSectionTarget(target)) {
+    return c.json({ error: `不明な再生成の対象: ${target}（text / image）` }, 400);
+  }
+
+  const projectDir = getProjectDir(id);
+  if (!existsSync(join(projectDir, CONTENT_FILE))) {
+    return c.json({ error: "生成結果（content.json）がありません。先にHTML生成を実行してください" }, 400);
+  }
+  const file = readContentFile(projectDir);
+  const sectionNumber = Number(c.req.param("number"));
+  if (!Number.isInteger(sectionNumber) || sectionNumber < 1 || sectionNumber > file.content.sections.length) {
+    return c.json({ error: `セクション番号は1〜${file.content.sections.length}を指定してください` }, 400);
+  }
+
+  const body = await c.req
+    .json<{ instruction?: string; frame?: string; provider?: string; model?: string; imageBackend?: string }>()
+    .catch(() => ({}) as Record<string, undefined>);
+  for (const key of SECTION_OPTION_KEYS) {
+    if (body[key] !== undefined && body[key] !== null && typeof body[key] !== "string") {
+      return c.json({ error: `${key} は文字列にしてください` }, 400);
+    }
+  }
+  if (body.instruction && body.instruction.length > 1000) {
+    return c.json({ error: "instruction は1000文字以内の文字列にしてください" }, 400);
+  }
+  if (body.provider && !isTextProviderName(body.provider)) {
+    return c.json({ error: `不明なプロバイダ: ${body.provider}` }, 400);
+  }
+  if (body.imageBackend && !isImageBackendName(body.imageBackend)) {
+    return c.json({ error: `不明な画像バックエンド: ${body.imageBackend}` }, 400);
+  }
+  if (body.frame) {
+    const framesDir = join(projectDir, "frames");
+    const frames = existsSync(join(framesDir, MANIFEST_FILE)) ? readManifest(framesDir).frames : [];
+    if (!frames.some((frame) => frame.file === body.frame)) {
+      return c.json({ error: `フレームが見つかりません: ${body.frame}` }, 400);
+    }
+  }
+
+  const options: Record<string, string> = { section: String(sectionNumber) };
+  for (const key of SECTION_OPTION_KEYS) {
+    const value = body[key]?.trim();
+    if (value) options[key] = value;
+  }
+
+  try {
+    const job = await enqueueJob(id, SECTION_STEPS[target], options);
+    return c.json({ jobId: job.id, job }, 202);
+  } catch (err) {
+    if (err instanceof JobConflictError) {
+      return c.json({ error: err.message, jobId: err.job.id }, 409);
     }
+    throw err;
+  }
+});
+
+// 実行中・待機中のステップを停止
+app.post("/api/projects/:id/cancel", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+
+  const job = await getActiveJob(project.id);
+  if (!job || !(await cancelJob(job.id))) {
+    return c.json({ error: "実行中のジョブがありません" }, 409);
+  }
+  return c.json(await getJob(job.id));
+});
+
+// プロジェクトのジョブ履歴
+app.get("/api/projects/:id/jobs", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project) {
+    return c.json({ error: "プロジェクトが見つかりません" }, 404);
+  }
+  return c.json(await getProjectJobs(project.id));
+});
+
+// ジョブ詳細
+app.get("/api/jobs/:jobId", async (c) => {
+  const job = await getJob(c.req.param("jobId"));
+  if (!job) {
+    return c.json({ error: "ジョブが見つかりません" }, 404);
+  }
+  return c.json(job);
+});
+
+// ジョブのキャンセル
+app.post("/api/jobs/:jobId/cancel", async (c) => {
+  const job = await getJob(c.req.param("jobId"));
+  if (!job) {
+    return c.json({ error: "ジョブが見つかりません" }, 404);
+  }
+  if (!(await cancelJob(job.id))) {
+    return c.json({ error: "このジョブはキャンセルできません" }, 409);
+  }
+  return c.json(await getJob(job.id));
+});
+
+// ジョブ出力（SSE）
+// これまでの出力を再生した後、ジョブが終了するまでライブ出力を配信する
+app.get("/api/jobs/:jobId/events", async (c) => {
+  const job = await getJob(c.req.param("jobId"));
+  if (!job) {
+    return c.json({ error: "ジョブが見つかりません" }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    // 書き込み順を保つため直列につなぐ
+    let writing = Promise.resolve();
+
+    await new Promise<void>((resolve) => {
+      let unsubscribe: (() => void) | null = null;
+      let finished = false;
+      const finish = () => {
+        finished = true;
+        unsubscribe?.();
+        resolve();
+      };
+
+      const send = (message: JobMessage) => {
+        writing = writing
+          .then(() => stream.writeSSE({ data: JSON.stringify(message), event: "message" }))
+          .catch(() => {});
+        if (isTerminalMessage(message)) finish();
+      };
+
+      unsubscribe = subscribeJob(job.id, send);
+      if (finished) unsubscribe();
+      stream.onAbort(finish);
+    });
+
+    await writing;
   });
 });
 
-// 生成されたHTMLを取得
+// プレビュー用に画像などの相対パスの基点をプロジェクトディレクトリにする
+function withProjectBase(html: string, projectId: string): string {
+  return html.replace(/<head>/i, `<head>\n  <base href="/data/projects/${projectId}/">`);
+}
+
+// テーマ一覧
+app.get("/api/themes", (c) => {
+  return c.json({ themes: listThemes(), default: DEFAULT_THEME });
+});
+
+// 生成されたHTMLを取得（?theme=<name> で保存済みの生成結果を別のテーマで描画）
 app.get("/api/projects/:id/html", async (c) => {
   const project = await getProject(c.req.param("id"));
   if (!project || !project.htmlPath) {
     return c.json({ error: "HTMLが見つかりません" }, 404);
   }
 
-  const htmlPath = join(getProjectDir(project.id), project.htmlPath);
+  // 生成HTMLは同じオリジンで配信するため、スクリプトを実行させない
+  c.header("Content-Security-Policy", GENERATED_HTML_CSP);
+
+  const projectDir = getProjectDir(project.id);
+  const themeName = c.req.query("theme");
+  if (themeName) {
+    if (!isThemeName(themeName)) {
+      return c.json({ error: `不明なテーマ: ${themeName}` }, 400);
+    }
+    if (!existsSync(join(projectDir, CONTENT_FILE))) {
+      return c.json({ error: "生成結果（content.json）がありません。HTML生成を再実行してください" }, 404);
+    }
+    const file = readContentFile(projectDir);
+    return c.html(withProjectBase(buildHTML(file.content, contentImages(file), loadTheme(themeName), file.video), project.id));
+  }
+
+  const htmlPath = join(projectDir, project.htmlPath);
   if (!existsSync(htmlPath)) {
     return c.json({ error: "HTMLファイルが見つかりません" }, 404);
   }
 
   const html = readFileSync(htmlPath, "utf-8");
-  return c.html(html);
+  return c.html(withProjectBase(html, project.id));
+});
+
+// 生成されたMarkdownを取得（?download=1 でファイルとしてダウンロード）
+app.get("/api/projects/:id/markdown", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project || !project.markdownPath) {
+    return c.json({ error: "Markdownが見つかりません" }, 404);
+  }
+
+  const markdownPath = join(getProjectDir(project.id), project.markdownPath);
+  if (!existsSync(markdownPath)) {
+    return c.json({ error: "Markdownファイルが見つかりません" }, 404);
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "text/markdown; charset=utf-8" };
+  if (c.req.query("download")) {
+    const safeName = project.name.replace(/[^a-zA-Z0-9_.-]/g, "_").replace(/\.mp4$/i, "");
+    headers["Content-Disposition"] = `attachment; filename="${safeName}.md"`;
+  }
+  return new Response(readFileSync(markdownPath, "utf-8"), { headers });
+});
+
+// チャプターを取得（?format=youtube は概要欄用の一覧、vtt は WebVTT のチャプタートラック。?download=1 でダウンロード）
+app.get("/api/projects/:id/chapters", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project || !project.contentPath) {
+    return c.json({ error: "生成結果がありません" }, 404);
+  }
+
+  const format = c.req.query("format") ?? "youtube";
+  if (format !== "youtube" && format !== "vtt") {
+    return c.json({ error: "format には youtube / vtt を指定してください" }, 400);
+  }
+  const chaptersPath = join(getProjectDir(project.id), format === "vtt" ? CHAPTERS_VTT_FILE : CHAPTERS_TEXT_FILE);
+  if (!existsSync(chaptersPath)) {
+    const reason =
+      format === "youtube"
+        ? `YouTubeのチャプターの条件（${YOUTUBE_MIN_CHAPTERS}つ以上・各${YOUTUBE_MIN_CHAPTER_SECONDS}秒以上）を満たさないか、再描画前の生成結果です`
+        : "再描画前の生成結果です。再描画してください";
+    return c.json({ error: `チャプターがありません（${reason}）` }, 404);
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": format === "vtt" ? "text/vtt; charset=utf-8" : "text/plain; charset=utf-8",
+  };
+  if (c.req.query("download")) {
+    const safeName = project.name.replace(/[^a-zA-Z0-9_.-]/g, "_").replace(/\.mp4$/i, "");
+    headers["Content-Disposition"] = `attachment; filename="${safeName}.chapters.${format === "vtt" ? "vtt" : "txt"}"`;
+  }
+  return new Response(readFileSync(chaptersPath, "utf-8"), { headers });
+});
+
+// SNS向けの投稿（スレッドは各投稿のXの文字数・Blueskyの文字数を付けて返す）
+app.get("/api/projects/:id/social", async (c) => {
+  const project = await getProject(c.req.param("id"));
+  if (!project || !project.socialPath) {
+    return c.json({ error: "SNS投稿がありません。先に生成してください" }, 404);
+  }
+  const projectDir = getProjectDir(project.id);
+  if (!existsSync(join(projectDir, project.socialPath))) {
+    return c.json({ error: "SNS投稿のファイルが見つかりません" }, 404);
+  }
+
+  const file = readSocialFile(projectDir);
+  // 画像はセクションの今の出力画像（再生成で変わっても追従する）
+  const content = existsSync(join(projectDir, CONTENT_FILE)) ? readContentFile(projectDir) : null;
+  const withImage = (post: SocialImagePost) => {
+    const image = content && sectionImage(content, post.section);
+    return { ...post, image: image && existsSync(join(projectDir, image)) ? image : null };
+  };
+  return c.json({
+    ...file,
+    linkedin: withImage(file.linkedin),
+    newsletter: withImage(file.newsletter),
+    threadCounts: file.thread.map((post) => ({ x: xWeightedLength(post), bluesky: graphemeLength(post) })),
+    limits: { x: X_MAX_WEIGHT, bluesky: BLUESKY_MAX_GRAPHEMES },
+  });
 });
 
 // ZIPダウンロード
@@ -299,15 +896,26 @@ app.get("/api/projects/:id/download", async (c) => {
     return c.json({ error: "生成データが見つかりません" }, 404);
   }
 
-  // ZIPを作成
+  // ZIPを作成（動画を同梱すると大きくなるので、メモリに溜めずにそのまま送る）
   const archive = archiver("zip", { zlib: { level: 9 } });
-  const chunks: Buffer[] = [];
-
-  archive.on("data", (chunk) => chunks.push(chunk));
+  // ファイルを読めない等で失敗したらストリームを中断する（ダウンロードは途中で失敗する）
+  archive.on("error", (err) => {
+    if (archive.destroyed) return; // destroy で再び発生するエラー
+    console.error(`ZIPの作成に失敗しました（${project.id}）: ${err.message}`);
+    archive.destroy(err);
+  });
 
   // HTMLファイルを追加
   archive.file(htmlPath, { name: "index.html" });
 
+  // Markdownファイルを追加
+  if (project.markdownPath) {
+    const markdownPath = join(projectDir, project.markdownPath);
+    if (existsSync(markdownPath)) {
+      archive.file(markdownPath, { name: "index.md" });
+    }
+  }
+
   // 出力画像を追加
   const outputDir = join(projectDir, "output");
   if (existsSync(outputDir)) {
@@ -322,14 +930,30 @@ app.get("/api/projects/:id/download", async (c) => {
     }
   }
 
-  await archive.finalize();
+  // チャプター（YouTube の概要欄用の一覧と WebVTT のトラック）を追加
+  for (const name of [CHAPTERS_TEXT_FILE, CHAPTERS_VTT_FILE]) {
+    const chaptersPath = join(projectDir, name);
+    if (existsSync(chaptersPath)) {
+      archive.file(chaptersPath, { name });
+    }
+  }
 
-  // すべてのチャンクを結合
-  const buffer = Buffer.concat(chunks);
+  // 記事に動画ファイルを埋め込んでいれば同梱する（YouTube / Vimeo はURLで参照するので不要）
+  const contentFile = existsSync(join(projectDir, CONTENT_FILE)) ? readContentFile(projectDir) : null;
+  const videoPath = join(projectDir, "video.mp4");
+  if (contentFile?.video?.kind === "file" && contentFile.video.src === "video.mp4" && existsSync(videoPath)) {
+    // 動画は圧縮済みなので無圧縮で格納する
+    const entry: archiver.ZipEntryData = { name: "video.mp4", store: true };
+    archive.file(videoPath, entry);
+  }
+
+  archive.finalize().catch(() => {
+    // 失敗は "error" イベントで処理する
+  });
 
   const safeName = project.name.replace(/[^a-zA-Z0-9_.-]/g, "_").replace(/\.mp4$/i, "");
 
-  return new Response(buffer, {
+  return new Response(Readable.toWeb(archive) as ReadableStream, {
     headers: {
       "Content-Type": "application/zip",
       "Content-Disposition": `attachment; filename="${safeName}.zip"`,
@@ -338,6 +962,12 @@ app.get("/api/projects/:id/download", async (c) => {
 });
 
 // 静的ファイル配信（プロジェクトの出力画像など）
+// 生成HTMLを直接開いた場合もスクリプトを実行させない
+app.use("/data/*", async (c, next) => {
+  await next();
+  c.header("Content-Security-Policy", GENERATED_HTML_CSP);
+  c.header("X-Content-Type-Options", "nosniff");
+});
 app.get("/data/*", serveStatic({ root: "./" }));
 
 // フロントエンド（シンプルなHTML）
@@ -401,11 +1031,12 @@ app.get("/", (c) => {
       margin-bottom: 1rem;
     }
     .status-pending { background: #e5e7eb; color: #374151; }
-    .status-transcribing, .status-extracting, .status-generating {
+    .status-transcribing, .status-extracting, .status-generating, .status-rendering {
       background: #fef3c7; color: #92400e;
     }
     .status-completed { background: #d1fae5; color: #065f46; }
     .status-error { background: #fee2e2; color: #991b1b; }
+    .status-cancelled { background: #e5e7eb; color: #6b7280; }
 
     .steps { display: flex; gap: 0.5rem; margin-bottom: 1rem; flex-wrap: wrap; }
     .steps span {
@@ -432,6 +1063,17 @@ app.get("/", (c) => {
     .btn-secondary:hover { background: #d1d5db; }
     .btn-danger { background: #fecaca; color: #991b1b; }
     .btn-danger:hover { background: #fca5a5; }
+    .actions select {
+      padding: 0.5rem;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 0.875rem;
+      background: white;
+    }
+
+    .step-progress { margin-top: 1rem; display: none; }
+    .step-progress .progress-bar { display: block; margin-top: 0; }
+    .step-progress-label { color: #6b7280; font-size: 0.75rem; margin-top: 0.25rem; }
 
     .output-log {
       margin-top: 1rem;
@@ -474,6 +1116,81 @@ app.get("/", (c) => {
     }
     .modal-body { padding: 0; }
     .modal-body iframe { width: 100%; height: 70vh; border: none; }
+
+    .step-stale { background: #fef3c7; color: #92400e; }
+
+    .transcript-toolbar {
+      display: flex;
+      gap: 0.5rem;
+      flex-wrap: wrap;
+      align-items: center;
+      padding: 0.75rem 1rem;
+      border-bottom: 1px solid #e5e7eb;
+      position: sticky;
+      top: 0;
+      background: white;
+    }
+    .transcript-toolbar input {
+      padding: 0.5rem;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 0.875rem;
+    }
+    .transcript-toolbar audio { height: 32px; margin-left: auto; }
+    .transcript-count { color: #6b7280; font-size: 0.75rem; }
+    .cue-list { padding: 0.5rem 1rem 1rem; }
+    .cue-row { display: flex; gap: 0.5rem; align-items: flex-start; padding: 0.25rem 0; }
+    .cue-row button { font-family: monospace; font-size: 0.75rem; padding: 0.4rem 0.5rem; white-space: nowrap; }
+    .cue-row.playing button { background: #2563eb; color: white; }
+    .cue-row textarea {
+      flex: 1;
+      padding: 0.4rem 0.5rem;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 0.875rem;
+      font-family: inherit;
+      resize: vertical;
+      min-height: 2.2rem;
+    }
+    .cue-row .cue-speaker { width: 6rem; padding: 0.4rem 0.5rem; border: 1px solid #d1d5db; border-radius: 4px; font-size: 0.8rem; }
+    .cue-row textarea.match { border-color: #f59e0b; background: #fffbeb; }
+
+    .social { padding: 1rem; }
+    .social h4 { margin: 1rem 0 0.5rem; font-size: 0.95rem; }
+    .social h4:first-child { margin-top: 0; }
+    .social-post { border: 1px solid #e5e7eb; border-radius: 6px; padding: 0.75rem; margin-bottom: 0.5rem; }
+    .social-post p { white-space: pre-wrap; margin: 0 0 0.5rem; font-size: 0.875rem; }
+    .social-post img { max-width: 240px; border-radius: 4px; display: block; margin-bottom: 0.5rem; }
+    .social-meta { display: flex; gap: 0.5rem; align-items: center; color: #6b7280; font-size: 0.75rem; }
+    .social-meta button { margin-left: auto; }
+    .social-meta .over { color: #dc2626; }
+
+    .editor { padding: 1rem; }
+    .editor [contenteditable] { outline: none; border-radius: 4px; padding: 0.25rem 0.4rem; }
+    .editor [contenteditable]:hover, .editor [contenteditable]:focus { background: #f9fafb; box-shadow: 0 0 0 1px #d1d5db; }
+    .editor-title { font-size: 1.5rem; font-weight: 700; }
+    .editor-tags {
+      width: 100%;
+      margin: 0.5rem 0 1rem;
+      padding: 0.4rem 0.5rem;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      font-size: 0.875rem;
+    }
+    .editor-section { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem; margin-bottom: 1rem; }
+    .editor-section-toolbar { display: flex; gap: 0.5rem; align-items: center; margin-bottom: 0.5rem; }
+    .editor-section-toolbar button { padding: 0.3rem 0.6rem; font-size: 0.75rem; }
+    .editor-section-toolbar input { width: 6rem; padding: 0.3rem; border: 1px solid #d1d5db; border-radius: 4px; }
+    .editor-section h4 { font-size: 1.125rem; margin-bottom: 0.5rem; }
+    .editor-body { font-size: 0.875rem; line-height: 1.7; margin-bottom: 0.5rem; }
+    .editor-image { display: flex; gap: 0.75rem; align-items: flex-start; }
+    .editor-image img { width: 240px; border-radius: 4px; background: #f3f4f6; }
+    .editor-warning { color: #b45309; font-size: 0.75rem; }
+    .editor-image .placeholder { width: 240px; height: 135px; border-radius: 4px; background: #f3f4f6; display: flex; align-items: center; justify-content: center; color: #9ca3af; font-size: 0.75rem; }
+    .frame-picker { display: flex; gap: 0.5rem; overflow-x: auto; padding: 0.5rem 0; }
+    .frame-picker figure { flex: none; cursor: pointer; text-align: center; font-size: 0.7rem; color: #6b7280; }
+    .frame-picker img { width: 120px; border-radius: 4px; border: 2px solid transparent; display: block; }
+    .frame-picker figure.selected img, .frame-picker figure:hover img { border-color: #2563eb; }
   </style>
 </head>
 <body>
@@ -496,7 +1213,16 @@ app.get("/", (c) => {
     <div class="modal-content">
       <div class="modal-header">
         <h3 id="modal-title">プレビュー</h3>
-        <button class="btn-secondary" onclick="closeModal()">閉じる</button>
+        <div class="actions">
+          <select id="preview-theme" title="テーマ" onchange="changePreviewTheme()"></select>
+          <button class="btn-secondary" onclick="saveTheme()">このテーマを使う</button>
+          <select id="preview-video" title="動画の埋め込み" onchange="saveVideoEmbed()">
+            <option value="">動画なし</option>
+            <option value="file">動画ファイルを埋め込む</option>
+            <option value="url">YouTube / Vimeo を埋め込む</option>
+          </select>
+          <button class="btn-secondary" onclick="closeModal()">閉じる</button>
+        </div>
       </div>
       <div class="modal-body">
         <iframe id="preview-frame"></iframe>
@@ -504,6 +1230,57 @@ app.get("/", (c) => {
     </div>
   </div>
 
+  <div class="modal" id="transcript-modal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3>文字起こしの編集</h3>
+        <div class="actions">
+          <button class="btn-primary" onclick="saveTranscript()">保存</button>
+          <button class="btn-secondary" onclick="closeTranscript()">閉じる</button>
+        </div>
+      </div>
+      <div class="transcript-toolbar">
+        <input id="transcript-find" placeholder="検索" oninput="highlightMatches()">
+        <input id="transcript-replace" placeholder="置換後">
+        <button class="btn-secondary" onclick="replaceAll()">すべて置換</button>
+        <span class="transcript-count" id="transcript-count"></span>
+        <audio id="transcript-audio" controls preload="metadata"></audio>
+      </div>
+      <div class="cue-list" id="cue-list"></div>
+    </div>
+  </div>
+
+  <div class="modal" id="social-modal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3>SNS投稿</h3>
+        <div class="actions">
+          <button class="btn-primary" id="social-generate" onclick="generateSocial()">生成</button>
+          <button class="btn-secondary" onclick="closeSocial()">閉じる</button>
+        </div>
+      </div>
+      <div class="social" id="social-body"></div>
+    </div>
+  </div>
+
+  <div class="modal" id="editor-modal">
+    <div class="modal-content">
+      <div class="modal-header">
+        <h3>記事の編集</h3>
+        <div class="actions">
+          <button class="btn-primary" id="editor-save" onclick="saveEditor()">保存して再描画</button>
+          <button class="btn-secondary" onclick="closeEditor()">閉じる</button>
+        </div>
+      </div>
+      <div class="editor">
+        <div class="editor-title" id="editor-title" contenteditable="plaintext-only" oninput="editorDirty = true"></div>
+        <input class="editor-tags" id="editor-tags" placeholder="タグ（カンマ区切り）" oninput="editorDirty = true">
+        <div id="editor-sections"></div>
+        <button class="btn-secondary" onclick="addEditorSection()">＋ セクションを追加</button>
+      </div>
+    </div>
+  </div>
+
   <script>
     const API = '/api';
 
@@ -571,64 +1348,179 @@ app.get("/", (c) => {
           transcribing: '文字起こし中...',
           extracting: 'フレーム抽出中...',
           generating: 'HTML生成中...',
+          rendering: '再描画中...',
           completed: '完了',
-          error: 'エラー'
+          error: 'エラー',
+          cancelled: 'キャンセル'
         };
 
         return \`
         <div class="project-card" id="card-\${p.id}">
           <h3>\${p.name}</h3>
-          <div class="meta">\${formatSize(p.videoSize)} · \${formatDate(p.createdAt)}</div>
+          <div class="meta">\${formatSize(p.videoSize)} · \${formatDate(p.createdAt)}\${p.detectedLanguage ? ' · ' + p.detectedLanguage : ''}</div>
           <span class="status-badge status-\${p.status}">\${statusLabels[p.status] || p.status}</span>
           <div class="steps">
-            <span class="\${p.transcribeCompleted ? 'step-done' : 'step-pending'}">文字起こし</span>
+            <span class="\${p.transcribeCompleted ? 'step-done' : 'step-pending'}">\${p.transcriptSource === 'captions' ? '字幕' : '文字起こし'}</span>
             <span class="\${p.extractCompleted ? 'step-done' : 'step-pending'}">フレーム抽出</span>
-            <span class="\${p.generateCompleted ? 'step-done' : 'step-pending'}">HTML生成</span>
+            <span class="\${p.generateStale ? 'step-stale' : p.generateCompleted ? 'step-done' : 'step-pending'}">\${p.generateStale ? 'HTML生成（要再生成）' : 'HTML生成'}</span>
           </div>
           <div class="actions">
-            <button class="btn-primary" onclick="runStep('\${p.id}', 'all')" \${isProcessing(p.status) ? 'disabled' : ''}>全処理実行</button>
-            <button class="btn-secondary" onclick="runStep('\${p.id}', 'transcribe')" \${isProcessing(p.status) ? 'disabled' : ''}>文字起こし</button>
-            <button class="btn-secondary" onclick="runStep('\${p.id}', 'extract')" \${isProcessing(p.status) ? 'disabled' : ''}>フレーム抽出</button>
-            <button class="btn-secondary" onclick="runStep('\${p.id}', 'generate')" \${isProcessing(p.status) ? 'disabled' : ''}>HTML生成</button>
+            <button class="btn-primary" onclick="runStep('\${p.id}', 'all')" \${isProcessing(p) ? 'disabled' : ''}>全処理実行</button>
+            <button class="btn-secondary" onclick="runStep('\${p.id}', 'transcribe')" \${isProcessing(p) ? 'disabled' : ''}>文字起こし</button>
+            <button class="btn-secondary" onclick="importCaptions('\${p.id}')" \${isProcessing(p) ? 'disabled' : ''} title="SRT / WebVTT / YouTube JSON3">字幕を取り込む</button>
+            \${p.transcribeCompleted ? \`<button class="btn-secondary" onclick="openTranscript('\${p.id}')" \${isProcessing(p) ? 'disabled' : ''}>文字起こし編集</button>\` : ''}
+            <button class="btn-secondary" onclick="runStep('\${p.id}', 'extract')" \${isProcessing(p) ? 'disabled' : ''}>フレーム抽出</button>
+            <select id="extract-mode-\${p.id}" title="フレーム抽出モード" \${isProcessing(p) ? 'disabled' : ''}>
+              <option value="interval">一定間隔</option>
+              <option value="scene">シーン検出</option>
+              <option value="hybrid">間隔+シーン</option>
+            </select>
+            <button class="btn-secondary" onclick="runStep('\${p.id}', 'generate')" \${isProcessing(p) ? 'disabled' : ''}>HTML生成</button>
+            \${isProcessing(p) ? \`<button class="btn-danger" onclick="cancelStep('\${p.id}')">停止</button>\` : ''}
             \${p.generateCompleted ? \`
               <button class="btn-secondary" onclick="previewHtml('\${p.id}')">プレビュー</button>
+              \${p.contentPath ? \`<button class="btn-secondary" onclick="openEditor('\${p.id}')" \${isProcessing(p) ? 'disabled' : ''}>記事を編集</button>\` : ''}
+              \${p.contentPath ? \`<button class="btn-secondary" onclick="runStep('\${p.id}', 'render')" \${isProcessing(p) ? 'disabled' : ''} title="保存済みの生成結果からHTML・Markdownを出力し直します（AIは使いません）">再描画</button>\` : ''}
               <button class="btn-secondary" onclick="downloadZip('\${p.id}')">ZIPダウンロード</button>
+              \${p.markdownPath ? \`<button class="btn-secondary" onclick="downloadMarkdown('\${p.id}')">Markdown</button>\` : ''}
+              \${p.contentPath ? \`<button class="btn-secondary" onclick="showChapters('\${p.id}')">チャプター</button>\` : ''}
+              \${p.contentPath ? \`<button class="btn-secondary" onclick="openSocial('\${p.id}')" \${isProcessing(p) ? 'disabled' : ''}>SNS投稿</button>\` : ''}
             \` : ''}
             <button class="btn-danger" onclick="deleteProject('\${p.id}')">削除</button>
           </div>
+          <div class="step-progress" id="progress-\${p.id}">
+            <div class="progress-bar"><div class="progress-bar-fill"></div></div>
+            <div class="step-progress-label"></div>
+          </div>
           <div class="output-log" id="log-\${p.id}"></div>
         </div>
       \`}).join('');
+
+      // 一覧を再描画したので、実行中のジョブに接続し直す
+      for (const key in jobSources) {
+        jobSources[key].close();
+        delete jobSources[key];
+      }
+      projects.filter((p) => p.activeJobId).forEach((p) => attachJob(p.id, p.activeJobId));
     }
 
-    function isProcessing(status) {
-      return ['transcribing', 'extracting', 'generating'].includes(status);
+    function isProcessing(p) {
+      return !!p.activeJobId || ['transcribing', 'extracting', 'generating', 'rendering'].includes(p.status);
     }
 
-    // ステップ実行
+    // ステップ実行（ジョブをキューに追加）
     async function runStep(id, step) {
+      const options = {};
+      if (step === 'extract' || step === 'all') {
+        options.extractMode = document.getElementById('extract-mode-' + id).value;
+      }
+      const res = await fetch(API + '/projects/' + id + '/run/' + step, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options)
+      });
+      const body = await res.json();
+      if (!res.ok && !body.jobId) {
+        alert(body.error || '実行に失敗しました');
+        return;
+      }
+      // 409の場合は既存のジョブに接続する
+      loadProjects();
+    }
+
+    // 既存の字幕を文字起こしとして取り込む
+    function importCaptions(id) {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.vtt,.srt,.json,.json3';
+      input.onchange = async () => {
+        if (!input.files[0]) return;
+        const formData = new FormData();
+        formData.append('file', input.files[0]);
+        const res = await fetch(API + '/projects/' + id + '/captions', { method: 'POST', body: formData });
+        const body = await res.json();
+        if (!res.ok) {
+          alert(body.error || '字幕の取り込みに失敗しました');
+          return;
+        }
+        alert('字幕を取り込みました（' + body.format + '、' + body.cues + 'キュー）');
+        loadProjects();
+      };
+      input.click();
+    }
+
+    // 実行中のステップを停止
+    async function cancelStep(id) {
+      const res = await fetch(API + '/projects/' + id + '/cancel', { method: 'POST' });
+      if (!res.ok) {
+        const body = await res.json();
+        alert(body.error || '停止に失敗しました');
+      }
+      loadProjects();
+    }
+
+    // ジョブ出力に接続（途中からでも過去の出力を再生）
+    const jobSources = {};
+
+    function attachJob(id, jobId) {
       const logEl = document.getElementById('log-' + id);
+      if (!logEl) return;
       logEl.style.display = 'block';
-      logEl.textContent = '処理開始...\\n';
+      logEl.textContent = '';
+
+      if (jobSources[id]) jobSources[id].close();
+      const eventSource = new EventSource(API + '/jobs/' + jobId + '/events');
+      jobSources[id] = eventSource;
 
-      const eventSource = new EventSource(API + '/projects/' + id + '/run/' + step);
+      const detach = () => {
+        eventSource.close();
+        delete jobSources[id];
+        loadProjects();
+      };
 
       eventSource.onmessage = (e) => {
         const msg = JSON.parse(e.data);
         if (msg.type === 'output' || msg.type === 'status') {
-          logEl.textContent += msg.data;
+          logEl.textContent += msg.data + (msg.type === 'status' ? '\\n' : '');
           logEl.scrollTop = logEl.scrollHeight;
         }
-        if (msg.type === 'done' || msg.type === 'error') {
-          eventSource.close();
-          loadProjects();
+        if (msg.type === 'progress') {
+          renderProgress(id, JSON.parse(msg.data));
         }
+        if (msg.type === 'error') {
+          logEl.textContent += 'エラー: ' + msg.data + '\\n';
+        }
+        if (msg.type === 'cancelled') {
+          logEl.textContent += msg.data + '\\n';
+        }
+        if (msg.type === 'done' || msg.type === 'error' || msg.type === 'cancelled') detach();
       };
 
-      eventSource.onerror = () => {
-        eventSource.close();
-        loadProjects();
-      };
+      eventSource.onerror = detach;
+    }
+
+    // 進捗バー
+    const stepLabels = {
+      transcribe: '文字起こし',
+      extract: 'フレーム抽出',
+      generate: 'HTML生成',
+      render: '再描画',
+      'section-text': 'セクションの本文',
+      'section-image': 'セクションの画像',
+      social: 'SNS投稿',
+    };
+
+    function renderProgress(id, progress) {
+      const el = document.getElementById('progress-' + id);
+      if (!el) return;
+      el.style.display = 'block';
+      el.querySelector('.progress-bar-fill').style.width = progress.percent + '%';
+
+      let label = stepLabels[progress.step] || progress.step;
+      if (progress.label) label += ' / ' + progress.label;
+      label += ' · ' + progress.percent.toFixed(1) + '%';
+      if (progress.eta !== null) label += ' · 残り約' + formatDuration(progress.eta);
+      el.querySelector('.step-progress-label').textContent = label;
     }
 
     // 削除
@@ -639,22 +1531,550 @@ app.get("/", (c) => {
     }
 
     // プレビュー
-    function previewHtml(id) {
+    let previewProjectId = null;
+
+    async function previewHtml(id) {
+      previewProjectId = id;
+      const [project, themes] = await Promise.all([
+        fetch(API + '/projects/' + id).then(res => res.json()),
+        fetch(API + '/themes').then(res => res.json()),
+      ]);
+      const current = project.theme || themes.default;
+      document.getElementById('preview-theme').innerHTML = themes.themes
+        .map(t => '<option value="' + t + '"' + (t === current ? ' selected' : '') + '>' + t + '</option>')
+        .join('');
+      document.getElementById('preview-video').value = project.videoEmbed || '';
+
       document.getElementById('modal-title').textContent = 'プレビュー';
       document.getElementById('preview-frame').src = API + '/projects/' + id + '/html';
       document.getElementById('preview-modal').classList.add('active');
     }
 
+    // 保存済みの生成結果を別のテーマで表示
+    function changePreviewTheme() {
+      const theme = document.getElementById('preview-theme').value;
+      document.getElementById('preview-frame').src =
+        API + '/projects/' + previewProjectId + '/html?theme=' + encodeURIComponent(theme);
+    }
+
+    async function saveTheme() {
+      const theme = document.getElementById('preview-theme').value;
+      const res = await fetch(API + '/projects/' + previewProjectId, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ theme }),
+      });
+      if (!res.ok) {
+        alert((await res.json()).error || 'テーマの設定に失敗しました');
+        return;
+      }
+      // 保存済みの生成結果があれば、AIを使わずにこのテーマで出力し直す
+      const project = await fetch(API + '/projects/' + previewProjectId).then(res => res.json());
+      if (project.contentPath) {
+        closeModal();
+        await runStep(project.id, 'render');
+        return;
+      }
+      alert('テーマを ' + theme + ' に設定しました（次回のHTML生成から適用されます）');
+    }
+
+    // 記事に埋め込む動画を設定し、保存済みの生成結果があれば出力し直す
+    async function saveVideoEmbed() {
+      const select = document.getElementById('preview-video');
+      const project = await fetch(API + '/projects/' + previewProjectId).then(res => res.json());
+      const body = { videoEmbed: select.value || null };
+      if (select.value === 'url') {
+        const url = prompt('YouTube / Vimeo の動画のURL', project.videoUrl || '');
+        if (!url) {
+          select.value = project.videoEmbed || '';
+          return;
+        }
+        body.videoUrl = url.trim();
+      }
+      const res = await fetch(API + '/projects/' + previewProjectId, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        alert((await res.json()).error || '動画の埋め込みの設定に失敗しました');
+        select.value = project.videoEmbed || '';
+        return;
+      }
+      if (project.contentPath) {
+        closeModal();
+        await runStep(project.id, 'render');
+        return;
+      }
+      alert('動画の埋め込みを設定しました（次回のHTML生成から適用されます）');
+    }
+
     function closeModal() {
       document.getElementById('preview-modal').classList.remove('active');
       document.getElementById('preview-frame').src = '';
     }
 
+    // 文字起こしの編集
+    let transcriptProjectId = null;
+    let transcriptCues = [];
+    let playingCue = null;
+
+    async function openTranscript(id) {
+      const res = await fetch(API + '/projects/' + id + '/transcript');
+      const body = await res.json();
+      if (!res.ok) {
+        alert(body.error || '文字起こしを読み込めません');
+        return;
+      }
+      transcriptProjectId = id;
+      transcriptCues = body.cues;
+      document.getElementById('transcript-audio').src = '/data/projects/' + id + '/video.mp4';
+      document.getElementById('transcript-find').value = '';
+      document.getElementById('transcript-replace').value = '';
+      renderCues();
+      document.getElementById('transcript-modal').classList.add('active');
+    }
+
+    function renderCues() {
+      const list = document.getElementById('cue-list');
+      list.innerHTML = '';
+      transcriptCues.forEach((cue, i) => {
+        const row = document.createElement('div');
+        row.className = 'cue-row';
+        row.id = 'cue-' + i;
+        const play = document.createElement('button');
+        play.className = 'btn-secondary';
+        play.title = 'この区間を再生';
+        play.textContent = '▶ ' + formatTimestamp(cue.startTime);
+        play.onclick = () => playCue(i);
+        const speaker = document.createElement('input');
+        speaker.className = 'cue-speaker';
+        speaker.placeholder = '話者';
+        speaker.value = cue.speaker || '';
+        speaker.oninput = () => { transcriptCues[i].speaker = speaker.value; };
+        const text = document.createElement('textarea');
+        text.rows = 1;
+        text.value = cue.text;
+        text.oninput = () => {
+          transcriptCues[i].text = text.value;
+          highlightMatches();
+        };
+        row.append(play, speaker, text);
+        list.append(row);
+      });
+      highlightMatches();
+    }
+
+    // キューの開始時刻から終了時刻まで再生
+    function playCue(i) {
+      const audio = document.getElementById('transcript-audio');
+      const cue = transcriptCues[i];
+      document.querySelectorAll('.cue-row.playing').forEach(el => el.classList.remove('playing'));
+      document.getElementById('cue-' + i).classList.add('playing');
+      playingCue = cue;
+      audio.currentTime = cue.startTime;
+      audio.play();
+    }
+
+    document.getElementById('transcript-audio').ontimeupdate = (e) => {
+      if (playingCue && e.target.currentTime >= playingCue.endTime) {
+        e.target.pause();
+        playingCue = null;
+        document.querySelectorAll('.cue-row.playing').forEach(el => el.classList.remove('playing'));
+      }
+    };
+
+    function highlightMatches() {
+      const find = document.getElementById('transcript-find').value;
+      let count = 0;
+      transcriptCues.forEach((cue, i) => {
+        const matches = find ? cue.text.split(find).length - 1 : 0;
+        count += matches;
+        document.querySelector('#cue-' + i + ' textarea').classList.toggle('match', matches > 0);
+      });
+      document.getElementById('transcript-count').textContent = find ? count + '件' : transcriptCues.length + 'キュー';
+    }
+
+    function replaceAll() {
+      const find = document.getElementById('transcript-find').value;
+      const replacement = document.getElementById('transcript-replace').value;
+      if (!find) return;
+      transcriptCues.forEach(cue => { cue.text = cue.text.split(find).join(replacement); });
+      renderCues();
+    }
+
+    async function saveTranscript() {
+      const res = await fetch(API + '/projects/' + transcriptProjectId + '/transcript', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cues: transcriptCues }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        alert(body.error || '保存に失敗しました');
+        return;
+      }
+      alert('保存しました' + (body.project.generateStale ? '（記事に反映するにはHTMLを再生成してください）' : ''));
+      closeTranscript();
+      loadProjects();
+    }
+
+    function closeTranscript() {
+      const audio = document.getElementById('transcript-audio');
+      audio.pause();
+      audio.removeAttribute('src');
+      playingCue = null;
+      document.getElementById('transcript-modal').classList.remove('active');
+    }
+
+    // 記事の編集（タイトル・見出し・本文はその場で編集し、画像は抽出済みフレームから選び直す）
+    let editorProjectId = null;
+    let editorSections = [];
+    let editorDirty = false;
+
+    async function openEditor(id) {
+      const res = await fetch(API + '/projects/' + id + '/content');
+      const body = await res.json();
+      if (!res.ok) {
+        alert(body.error || '記事を読み込めません');
+        return;
+      }
+      editorProjectId = id;
+      editorSections = body.content.sections.map((section, i) => ({
+        ...section,
+        frame: body.sections[i] ? body.sections[i].frame : null,
+        image: body.sections[i] ? body.sections[i].image : null,
+        preview: body.sections[i] ? projectFileUrl(id, body.sections[i].image) : null,
+        imageFallback: body.sections[i] ? body.sections[i].imageFallback : null,
+      }));
+      document.getElementById('editor-title').textContent = body.content.title;
+      document.getElementById('editor-tags').value = (body.content.tags || []).join(', ');
+      editorDirty = false;
+      renderEditorSections();
+      document.getElementById('editor-modal').classList.add('active');
+    }
+
+    function projectFileUrl(id, path) {
+      return '/data/projects/' + id + '/' + path;
+    }
+
+    function renderEditorSections() {
+      const list = document.getElementById('editor-sections');
+      list.innerHTML = '';
+      editorSections.forEach((section, i) => {
+        const el = document.createElement('div');
+        el.className = 'editor-section';
+
+        const toolbar = document.createElement('div');
+        toolbar.className = 'editor-section-toolbar';
+        const label = document.createElement('strong');
+        label.textContent = (i + 1) + '.';
+        const time = document.createElement('input');
+        time.type = 'number';
+        time.min = '0';
+        time.step = '1';
+        time.title = '開始時刻（秒）';
+        time.value = section.startTime;
+        time.onchange = () => {
+          section.startTime = Number(time.value);
+          editorDirty = true;
+        };
+        const buttons = [
+          ['↑', '上へ', () => moveEditorSection(i, -1), i === 0],
+          ['↓', '下へ', () => moveEditorSection(i, 1), i === editorSections.length - 1],
+          ['画像を選ぶ', 'この時刻の近くのフレームから選ぶ', () => toggleFramePicker(i, el), false],
+          ['本文を再生成', 'このセクションの本文だけをAIで書き直す', () => regenerateSection(i, 'text'), false],
+          ['画像を再生成', 'このセクションのフレームを選び直して画像だけを変換し直す', () => regenerateSection(i, 'image'), false],
+          ['削除', 'このセクションを削除', () => removeEditorSection(i), editorSections.length === 1],
+        ].map(([text, title, onclick, disabled]) => {
+          const button = document.createElement('button');
+          button.className = text === '削除' ? 'btn-danger' : 'btn-secondary';
+          button.textContent = text;
+          button.title = title;
+          button.onclick = onclick;
+          button.disabled = disabled;
+          return button;
+        });
+        toolbar.append(label, time, ...buttons);
+
+        const heading = document.createElement('h4');
+        heading.contentEditable = 'plaintext-only';
+        heading.textContent = section.heading;
+        heading.oninput = () => {
+          section.heading = heading.textContent;
+          editorDirty = true;
+        };
+
+        // 本文はサーバーで無害化済みのHTML
+        const body = document.createElement('div');
+        body.className = 'editor-body';
+        body.contentEditable = 'true';
+        body.innerHTML = section.body;
+        body.oninput = () => {
+          section.body = body.innerHTML;
+          editorDirty = true;
+        };
+
+        const image = document.createElement('div');
+        image.className = 'editor-image';
+        if (section.preview) {
+          const img = document.createElement('img');
+          img.src = section.preview;
+          image.append(img);
+        } else {
+          const placeholder = document.createElement('div');
+          placeholder.className = 'placeholder';
+          placeholder.textContent = '画像を選んでください';
+          image.append(placeholder);
+        }
+        // 画像バックエンドで変換できず、ローカル補正にした画像
+        if (section.imageFallback) {
+          const warning = document.createElement('div');
+          warning.className = 'editor-warning';
+          warning.textContent = 'ローカル補正（enhance）の画像です: ' + section.imageFallback;
+          image.append(warning);
+        }
+
+        el.append(toolbar, heading, body, image);
+        list.append(el);
+      });
+    }
+
+    function moveEditorSection(i, delta) {
+      const [section] = editorSections.splice(i, 1);
+      editorSections.splice(i + delta, 0, section);
+      editorDirty = true;
+      renderEditorSections();
+    }
+
+    function removeEditorSection(i) {
+      if (!confirm('セクション「' + editorSections[i].heading + '」を削除しますか？')) return;
+      editorSections.splice(i, 1);
+      editorDirty = true;
+      renderEditorSections();
+    }
+
+    function addEditorSection() {
+      const last = editorSections[editorSections.length - 1];
+      editorSections.push({
+        heading: '新しいセクション',
+        body: '<p>本文</p>',
+        startTime: last ? last.startTime : 0,
+        imagePrompt: '',
+        frame: null,
+        image: null,
+        preview: null,
+      });
+      editorDirty = true;
+      renderEditorSections();
+      const sections = document.querySelectorAll('.editor-section');
+      toggleFramePicker(editorSections.length - 1, sections[sections.length - 1]);
+    }
+
+    // セクションの開始時刻に近いフレームを並べ、クリックで画像を差し替える
+    async function toggleFramePicker(i, el) {
+      const existing = el.querySelector('.frame-picker');
+      if (existing) {
+        existing.remove();
+        return;
+      }
+      const section = editorSections[i];
+      const res = await fetch(API + '/projects/' + editorProjectId + '/frames?near=' + section.startTime + '&limit=12');
+      const body = await res.json();
+      if (!res.ok) {
+        alert(body.error || 'フレームを読み込めません');
+        return;
+      }
+      const picker = document.createElement('div');
+      picker.className = 'frame-picker';
+      body.frames.forEach((frame) => {
+        const figure = document.createElement('figure');
+        if (frame.file === section.frame) figure.className = 'selected';
+        const img = document.createElement('img');
+        img.src = frame.url;
+        img.loading = 'lazy';
+        const caption = document.createElement('figcaption');
+        caption.textContent = formatTimestamp(frame.time);
+        figure.append(img, caption);
+        figure.onclick = () => {
+          section.frame = frame.file;
+          section.image = null;
+          section.preview = frame.url;
+          section.imageFallback = null;
+          editorDirty = true;
+          renderEditorSections();
+        };
+        picker.append(figure);
+      });
+      el.append(picker);
+    }
+
+    // 1セクションだけ再生成する（保存済みの記事が対象なので、編集中なら先に保存してもらう）
+    async function regenerateSection(i, target) {
+      if (editorDirty) {
+        alert('保存していない編集があります。先に「保存して再描画」を押してください');
+        return;
+      }
+      const instruction = prompt(
+        (target === 'text' ? '本文' : '画像') + 'の再生成への追加の指示（任意。例: 短く、料金に触れる）',
+        ''
+      );
+      if (instruction === null) return;
+      const res = await fetch(API + '/projects/' + editorProjectId + '/sections/' + (i + 1) + '/' + target, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instruction }),
+      });
+      const body = await res.json();
+      if (!res.ok && !body.jobId) {
+        alert(body.error || '再生成に失敗しました');
+        return;
+      }
+      closeEditor();
+      loadProjects();
+    }
+
+    async function saveEditor() {
+      const button = document.getElementById('editor-save');
+      button.disabled = true;
+      try {
+        const tags = document.getElementById('editor-tags').value.split(',').map(t => t.trim()).filter(Boolean);
+        const res = await fetch(API + '/projects/' + editorProjectId + '/content', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title: document.getElementById('editor-title').textContent,
+            tags,
+            sections: editorSections.map(({ preview, ...section }) => section),
+          }),
+        });
+        const body = await res.json();
+        if (!res.ok) {
+          alert(body.error || '保存に失敗しました');
+          return;
+        }
+        closeEditor();
+        loadProjects();
+        previewHtml(editorProjectId);
+      } finally {
+        button.disabled = false;
+      }
+    }
+
+    function closeEditor() {
+      document.getElementById('editor-modal').classList.remove('active');
+    }
+
+    // SNS投稿（X / Bluesky のスレッド・LinkedIn・ニュースレター）
+    let socialProjectId = null;
+
+    async function openSocial(id) {
+      socialProjectId = id;
+      const project = await fetch(API + '/projects/' + id).then(res => res.json());
+      const body = document.getElementById('social-body');
+      body.innerHTML = '';
+      document.getElementById('social-generate').textContent = project.socialPath ? '生成し直す' : '生成';
+      if (!project.socialPath) {
+        body.textContent = 'まだ生成していません。「生成」を押すと、記事と文字起こしからSNS向けの投稿を作ります。';
+      } else {
+        const res = await fetch(API + '/projects/' + id + '/social');
+        const social = await res.json();
+        if (!res.ok) {
+          body.textContent = social.error || 'SNS投稿の取得に失敗しました';
+        } else {
+          renderSocial(id, social);
+        }
+      }
+      document.getElementById('social-modal').classList.add('active');
+    }
+
+    function renderSocial(id, social) {
+      const body = document.getElementById('social-body');
+      const heading = (text) => {
+        const h = document.createElement('h4');
+        h.textContent = text;
+        body.append(h);
+      };
+      const post = (text, meta, image) => {
+        const card = document.createElement('div');
+        card.className = 'social-post';
+        if (image) {
+          const img = document.createElement('img');
+          img.src = projectFileUrl(id, image);
+          card.append(img);
+        }
+        const p = document.createElement('p');
+        p.textContent = text;
+        const footer = document.createElement('div');
+        footer.className = 'social-meta';
+        footer.append(...meta, copyButton(text));
+        card.append(p, footer);
+        body.append(card);
+      };
+      const count = (label, value, limit) => {
+        const span = document.createElement('span');
+        span.textContent = label + ': ' + value + '/' + limit;
+        if (value > limit) span.className = 'over';
+        return span;
+      };
+
+      heading('X / Bluesky スレッド（' + social.thread.length + '件）');
+      social.thread.forEach((text, i) => {
+        const counts = social.threadCounts[i];
+        post(text, [
+          document.createTextNode((i + 1) + '/' + social.thread.length),
+          count('X', counts.x, social.limits.x),
+          count('Bluesky', counts.bluesky, social.limits.bluesky),
+        ], null);
+      });
+      heading('LinkedIn');
+      post(social.linkedin.text, [document.createTextNode('画像: セクション' + social.linkedin.section)], social.linkedin.image);
+      heading('ニュースレター');
+      post(social.newsletter.text, [document.createTextNode('画像: セクション' + social.newsletter.section)], social.newsletter.image);
+    }
+
+    function copyButton(text) {
+      const button = document.createElement('button');
+      button.className = 'btn-secondary';
+      button.textContent = 'コピー';
+      button.onclick = async () => {
+        const copied = await navigator.clipboard.writeText(text).then(() => true, () => false);
+        button.textContent = copied ? 'コピーしました' : 'コピーできません';
+        setTimeout(() => { button.textContent = 'コピー'; }, 1500);
+      };
+      return button;
+    }
+
+    async function generateSocial() {
+      closeSocial();
+      await runStep(socialProjectId, 'social');
+    }
+
+    function closeSocial() {
+      document.getElementById('social-modal').classList.remove('active');
+    }
+
     // ZIPダウンロード
     function downloadZip(id) {
       window.location.href = API + '/projects/' + id + '/download';
     }
 
+    function downloadMarkdown(id) {
+      window.location.href = API + '/projects/' + id + '/markdown?download=1';
+    }
+
+    // YouTubeの概要欄用のチャプターをクリップボードにコピー（WebVTTのチャプターはZIPに同梱）
+    async function showChapters(id) {
+      const res = await fetch(API + '/projects/' + id + '/chapters?format=youtube');
+      if (!res.ok) {
+        alert((await res.json()).error || 'チャプターの取得に失敗しました');
+        return;
+      }
+      const text = await res.text();
+      const copied = await navigator.clipboard.writeText(text).then(() => true, () => false);
+      alert((copied ? 'YouTubeのチャプターをコピーしました（概要欄に貼り付けてください）' : 'YouTubeのチャプター') + '\\n\\n' + text);
+    }
+
     // ユーティリティ
     function formatSize(bytes) {
       if (!bytes) return '-';
@@ -664,6 +2084,20 @@ app.get("/", (c) => {
       return (bytes / 1024 / 1024 / 1024).toFixed(1) + ' GB';
     }
 
+    function formatDuration(seconds) {
+      if (seconds < 60) return seconds + '秒';
+      if (seconds < 3600) return Math.round(seconds / 60) + '分';
+      return Math.floor(seconds / 3600) + '時間' + Math.round((seconds % 3600) / 60) + '分';
+    }
+
+    // 秒 → h:mm:ss.s
+    function formatTimestamp(seconds) {
+      const h = Math.floor(seconds / 3600);
+      const m = Math.floor((seconds % 3600) / 60);
+      const s = (seconds % 60).toFixed(1).padStart(4, '0');
+      return (h > 0 ? h + ':' : '') + String(m).padStart(2, '0') + ':' + s;
+    }
+
     function formatDate(timestamp) {
       if (!timestamp) return '-';
       // タイムスタンプが秒単位の場合は1000倍する
@@ -679,6 +2113,13 @@ app.get("/", (c) => {
   return c.html(html);
 });
 
+// ジョブワーカー起動
+await startWorker({
+  handler: runStep,
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || "1", 10),
+  resumeInterrupted: process.env.JOB_RESUME_INTERRUPTED === "1",
+});
+
 // サーバー起動
 const port = parseInt(process.env.PORT || "3000", 10);
 console.log(`Server running at http://localhost:${port}`);
@@ -0,0 +1,147 @@
+/**
+ * lib/caption-parser.ts・lib/captions.ts のテスト（WebVTT / SRT / YouTube JSON3 の取り込み）
+ * 実行: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseSrt, parseWebVtt } from "../lib/caption-parser.js";
+import { captionsToVtt, detectCaptionFormat, parseCaptions, parseJson3 } from "../lib/captions.js";
+
+describe("parseWebVtt", () => {
+  it("ヘッダー・NOTE・STYLE・REGION を読み飛ばし、識別子と設定を残す", () => {
+    const vtt = [
+      "WEBVTT - タイトル",
+      "Kind: captions",
+      "",
+      "STYLE",
+      "::cue { color: red; }",
+      "",
+      "NOTE これはコメント",
+      "-- 続き",
+      "",
+      "intro",
+      "00:00:01.000 --> 00:00:04.500 align:start line:90% position:10%,line-left size:50% vertical:xx",
+      "こんにちは",
+      "",
+      "01:02.500 --> 01:04.000",
+      "時間のない時刻",
+      "",
+      "00:00:05.000 --> 00:00:99.000",
+      "秒が60以上の時刻のキューは捨てる",
+    ].join("\n");
+    assert.deepEqual(parseWebVtt(vtt), [
+      {
+        startTime: 1,
+        endTime: 4.5,
+        text: "こんにちは",
+        id: "intro",
+        settings: { align: "start", line: "90%", position: "10%,line-left", size: "50%" },
+      },
+      { startTime: 62.5, endTime: 64, text: "時間のない時刻" },
+    ]);
+  });
+
+  it("ヘッダーの直後に空行なしで続くキュー・CRLF・BOM を読む", () => {
+    const cues = parseWebVtt("\uFEFFWEBVTT\r\n00:00:00.000 --> 00:00:01.000\r\n一行目\r\n二行目\r\n");
+    assert.deepEqual(cues, [{ startTime: 0, endTime: 1, text: "一行目 二行目" }]);
+  });
+
+  it("装飾タグ・時刻タグ・ルビを除き、文字参照を戻す", () => {
+    const cues = parseWebVtt(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:02.000\n<c.yellow>色</c>と<i>斜体</i><00:00:01.000>と<ruby>漢字<rt>かんじ</rt></ruby> &amp; &lt;tag&gt; &#x27;引用&#39; 1 < 2"
+    );
+    assert.equal(cues[0].text, "色と斜体と漢字 & <tag> '引用' 1 < 2");
+  });
+
+  it("話者（<v>）を speaker にし、話者が替わればキューを分ける", () => {
+    const cues = parseWebVtt(
+      "WEBVTT\n\n00:00:05.000 --> 00:00:08.000\n<v.loud 田中 太郎>- こんにちは</v>\n<v 佐藤>- どうも\n<v 佐藤>よろしく"
+    );
+    assert.deepEqual(cues, [
+      { startTime: 5, endTime: 8, text: "こんにちは", speaker: "田中 太郎" },
+      { startTime: 5, endTime: 8, text: "どうも よろしく", speaker: "佐藤" },
+    ]);
+  });
+
+  it("終了が開始より前のキューは開始時刻で終わる", () => {
+    assert.deepEqual(parseWebVtt("WEBVTT\n\n00:00:03.000 --> 00:00:01.000\nテキスト"), [
+      { startTime: 3, endTime: 3, text: "テキスト" },
+    ]);
+  });
+});
+
+describe("parseSrt", () => {
+  it("番号・カンマ区切りの時刻・複数行のテキストを読む", () => {
+    const srt = "1\n00:00:01,000 --> 00:00:02,500\n一行目\n二行目\n\n2\n00:01:00,250 --> 00:01:03,000 X1:10 X2:20 Y1:5 Y2:15\n二つ目\n";
+    assert.deepEqual(parseSrt(srt), [
+      { startTime: 1, endTime: 2.5, text: "一行目 二行目", id: "1" },
+      { startTime: 60.25, endTime: 63, text: "二つ目", id: "2" },
+    ]);
+  });
+
+  it("テキスト中の空行で分かれたブロックは前のキューに続け、番号だけのブロックは捨てる", () => {
+    const srt = "1\n00:00:01,000 --> 00:00:02,000\n前半\n\n後半\n\n7\n\n2\n00:00:03,000 --> 00:00:04,000\n次\n";
+    assert.deepEqual(
+      parseSrt(srt).map(({ text }) => text),
+      ["前半 後半", "次"]
+    );
+  });
+
+  it("<i>・<font> 等のタグと {\\an8} 等のASSの指定を除く", () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<font color="#ff0000"><i>上に表示</i></font>\n';
+    assert.equal(parseSrt(srt)[0].text, "上に表示");
+  });
+});
+
+describe("parseJson3", () => {
+  it("segs をつなぎ、改行だけのイベント・開始時刻のないイベントを捨てる", () => {
+    const json3 = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 5000, segs: [{ utf8: "こん" }, { utf8: "にちは" }] },
+        { tStartMs: 1200, dDurationMs: 3000, aAppend: 1, segs: [{ utf8: "\n" }] },
+        { dDurationMs: 1000, segs: [{ utf8: "時刻なし" }] },
+        { tStartMs: 5500, segs: [{ utf8: "長さなし" }] },
+        { tStartMs: 7000, dDurationMs: 1000 },
+      ],
+    });
+    assert.deepEqual(parseJson3(json3), [
+      { startTime: 0, endTime: 5, text: "こんにちは" },
+      { startTime: 5.5, endTime: 5.5, text: "長さなし" },
+    ]);
+  });
+
+  it("JSONでない・events がない内容はエラーにする", () => {
+    assert.throws(() => parseJson3("WEBVTT"), /JSONではありません/);
+    assert.throws(() => parseJson3("{}"), /events がありません/);
+  });
+});
+
+describe("parseCaptions", () => {
+  it("拡張子、なければ内容から形式を判定する", () => {
+    assert.equal(detectCaptionFormat("a.SRT", ""), "srt");
+    assert.equal(detectCaptionFormat("a.json", ""), "json3");
+    assert.equal(detectCaptionFormat("captions", "\uFEFFWEBVTT\n"), "vtt");
+    assert.equal(detectCaptionFormat("captions", '{"events":[]}'), "json3");
+    assert.equal(detectCaptionFormat("captions", "1\n00:00:01,000 --> 00:00:02,000\nx"), "srt");
+    assert.equal(detectCaptionFormat("captions", "テキスト"), null);
+  });
+
+  it("時刻順に並べ、同じ話者の同じテキストが続くキューをまとめる", () => {
+    const srt = "2\n00:00:03,000 --> 00:00:04,000\n同じ\n\n1\n00:00:01,000 --> 00:00:02,000\n同じ\n\n3\n00:00:05,000 --> 00:00:06,000\n別\n";
+    assert.deepEqual(parseCaptions(srt, { format: "srt" }).cues, [
+      { startTime: 1, endTime: 4, text: "同じ", speaker: undefined },
+      { startTime: 5, endTime: 6, text: "別", speaker: undefined },
+    ]);
+  });
+
+  it("VTTの言語と話者を video.vtt に残す", () => {
+    const captions = parseCaptions("WEBVTT\nLanguage: ja\n\n00:00:01.000 --> 00:00:02.000\n<v 田中>A &amp; B");
+    assert.equal(captions.language, "ja");
+    assert.equal(captionsToVtt(captions), "WEBVTT\nLanguage: ja\n\n00:00:01.000 --> 00:00:02.000\n<v 田中>A &amp; B\n");
+  });
+
+  it("キューがなければエラーにする", () => {
+    assert.throws(() => parseCaptions("WEBVTT\n\nNOTE だけ\n"), /キューがありません/);
+  });
+});
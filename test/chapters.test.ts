@@ -0,0 +1,98 @@
+/**
+ * lib/chapters.ts のテスト（セクションからのチャプターと YouTube の条件）
+ * 実行: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildChapters, chaptersToVtt, fitYoutubeChapters, formatYoutubeChapters, type Chapter } from "../lib/chapters.js";
+import type { GeneratedContent } from "../lib/content-schema.js";
+
+function content(sections: [string, number][], language?: string): GeneratedContent {
+  return {
+    type: "blog",
+    title: "記事",
+    language,
+    sections: sections.map(([heading, startTime]) => ({ heading, body: "<p>本文</p>", startTime, imagePrompt: "" })),
+  };
+}
+
+describe("buildChapters", () => {
+  it("各チャプターは次のセクションの開始まで、最後は動画の終わりまで。最初は 0:00 から", () => {
+    assert.deepEqual(buildChapters(content([["はじめに", 5], ["本題", 60], ["まとめ", 120]]), 180), [
+      { title: "はじめに", startTime: 0, endTime: 60 },
+      { title: "本題", startTime: 60, endTime: 120 },
+      { title: "まとめ", startTime: 120, endTime: 180 },
+    ]);
+  });
+
+  it("時刻順に並べ、同じ開始時刻は最初の見出しだけ、動画の長さ以降のセクションは除く", () => {
+    assert.deepEqual(buildChapters(content([["後", 60], ["前", 0], ["同時刻", 60], ["範囲外", 200]]), 100), [
+      { title: "前", startTime: 0, endTime: 60 },
+      { title: "後", startTime: 60, endTime: 100 },
+    ]);
+  });
+
+  it("見出しの改行・連続する空白はまとめる", () => {
+    assert.equal(buildChapters(content([[" 見出し\n  二行目 ", 0]]), 30)[0].title, "見出し 二行目");
+  });
+});
+
+describe("fitYoutubeChapters", () => {
+  const chapter = (title: string, startTime: number, endTime: number): Chapter => ({ title, startTime, endTime });
+
+  it("条件（先頭が0:00、3つ以上、各10秒以上）を満たせばそのまま返す", () => {
+    const chapters = [chapter("A", 0, 10), chapter("B", 10, 20), chapter("C", 20, 30)];
+    assert.deepEqual(fitYoutubeChapters(chapters), chapters);
+  });
+
+  it("10秒未満のチャプターは前のチャプターに含める", () => {
+    assert.deepEqual(
+      fitYoutubeChapters([chapter("A", 0, 30), chapter("短い", 30, 35), chapter("B", 35, 60), chapter("C", 60, 90)]),
+      [chapter("A", 0, 35), chapter("B", 35, 60), chapter("C", 60, 90)]
+    );
+  });
+
+  it("先頭が10秒未満なら次のチャプターを 0:00 からにする", () => {
+    assert.deepEqual(
+      fitYoutubeChapters([chapter("オープニング", 0, 5), chapter("A", 5, 30), chapter("B", 30, 60), chapter("C", 60, 90)]),
+      [chapter("A", 0, 30), chapter("B", 30, 60), chapter("C", 60, 90)]
+    );
+  });
+
+  it("条件を満たすチャプターが3つ未満なら null", () => {
+    assert.equal(fitYoutubeChapters([chapter("A", 0, 30), chapter("B", 30, 60)]), null);
+    assert.equal(fitYoutubeChapters([chapter("A", 0, 30), chapter("B", 30, 35), chapter("C", 35, 40), chapter("D", 40, 45)]), null);
+    assert.equal(fitYoutubeChapters([chapter("A", 0, 5)]), null);
+    assert.equal(fitYoutubeChapters([]), null);
+  });
+});
+
+describe("formatYoutubeChapters", () => {
+  it("1時間未満は 00:00、1時間以上を含めば 0:00:00 にそろえる", () => {
+    assert.equal(
+      formatYoutubeChapters([
+        { title: "A", startTime: 0, endTime: 65.9 },
+        { title: "B", startTime: 65.9, endTime: 600 },
+      ]),
+      "00:00 A\n01:05 B\n"
+    );
+    assert.equal(
+      formatYoutubeChapters([
+        { title: "A", startTime: 0, endTime: 3600 },
+        { title: "B", startTime: 3725, endTime: 4000 },
+      ]),
+      "0:00:00 A\n1:02:05 B\n"
+    );
+  });
+});
+
+describe("chaptersToVtt", () => {
+  it("チャプター名をキューのテキストにし、言語をヘッダーに入れる", () => {
+    const chapters = buildChapters(content([["はじめに", 0], ["Q&A", 90.5]], "ja"), 120);
+    assert.equal(
+      chaptersToVtt(chapters, "ja"),
+      "WEBVTT\nLanguage: ja\n\n00:00:00.000 --> 00:01:30.500\nはじめに\n\n00:01:30.500 --> 00:02:00.000\nQ&amp;A\n"
+    );
+  });
+});
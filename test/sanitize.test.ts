@@ -0,0 +1,132 @@
+/**
+ * lib/sanitize.ts のテスト（生成HTMLの無害化とCSP）
+ * 実行: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { escapeHtml, isSafeUrl, sanitizeHtml, GENERATED_HTML_CSP } from "../lib/sanitize.js";
+
+describe("sanitizeHtml", () => {
+  it("許可したタグと属性は残す", () => {
+    assert.equal(
+      sanitizeHtml('<p>本文 <strong>強調</strong> <a href="/docs" title="資料">リンク</a></p>'),
+      '<p>本文 <strong>強調</strong> <a href="/docs" title="資料">リンク</a></p>'
+    );
+  });
+
+  it("script・style は中身ごと取り除く", () => {
+    assert.equal(sanitizeHtml("<p>前</p><script>alert(1)</script><p>後</p>"), "<p>前</p><p>後</p>");
+    assert.equal(sanitizeHtml("<SCRIPT src=x></SCRIPT >本文"), "本文");
+    assert.equal(sanitizeHtml("<style>body{display:none}</style>本文"), "本文");
+    assert.equal(sanitizeHtml("本文<script>alert(1)"), "本文");
+  });
+
+  it("イベントハンドラ・style 属性は取り除く", () => {
+    assert.equal(sanitizeHtml('<p onclick="alert(1)" style="color:red">本文</p>'), "<p>本文</p>");
+    assert.equal(sanitizeHtml('<a href="/" onmouseover=alert(1)>リンク</a>'), '<a href="/">リンク</a>');
+    assert.equal(sanitizeHtml('<img src=x onerror="alert(1)">'), "");
+  });
+
+  it("javascript: のURLは難読化されていても取り除く", () => {
+    for (const href of [
+      "javascript:alert(1)",
+      "JavaScript:alert(1)",
+      " javascript:alert(1)",
+      "java\tscript:alert(1)",
+      "java&#x09;script:alert(1)",
+      "&#106;avascript:alert(1)",
+      "&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)",
+      "javascript&colon;alert(1)",
+      "vbscript:msgbox(1)",
+    ]) {
+      assert.equal(sanitizeHtml(`<a href="${href}">リンク</a>`), "<a>リンク</a>", href);
+    }
+  });
+
+  it("svg・math は中身ごと取り除く", () => {
+    assert.equal(sanitizeHtml('<svg onload="alert(1)"><script>alert(1)</script></svg>本文'), "本文");
+    assert.equal(sanitizeHtml("<math><mi>x</mi></math>本文"), "本文");
+  });
+
+  it("data: のURLは取り除く", () => {
+    assert.equal(sanitizeHtml('<a href="data:text/html,<script>alert(1)</script>">リンク</a>'), "<a>リンク</a>");
+    assert.equal(sanitizeHtml('<a href="data:image/png;base64,AAAA">リンク</a>'), "<a>リンク</a>");
+  });
+
+  it("プロトコル相対URL（//host）は外部のサイトを指すので取り除く", () => {
+    for (const href of ["//evil.example/", "/\\evil.example/", "\\\\evil.example/", "/&#x2F;evil.example/", "/\t/evil.example/"]) {
+      assert.equal(sanitizeHtml(`<a href="${href}">リンク</a>`), "<a>リンク</a>", href);
+    }
+  });
+
+  it("外部リンクは別タブで開き、参照元を渡さない", () => {
+    assert.equal(
+      sanitizeHtml('<a href="https://example.com/">リンク</a>'),
+      '<a href="https://example.com/" target="_blank" rel="noopener noreferrer nofollow">リンク</a>'
+    );
+  });
+
+  it("許可していないタグは取り除き、中のテキストは残す", () => {
+    assert.equal(sanitizeHtml("<div><form><button>送信</button></form></div>"), "送信");
+  });
+
+  it("タグでない < > はエスケープし、文字参照はそのまま残す", () => {
+    assert.equal(sanitizeHtml("a < b &amp; c > d"), "a &lt; b &amp; c &gt; d");
+    assert.equal(sanitizeHtml("<p>x<y</p>"), "<p>x&lt;y</p>");
+  });
+
+  it("閉じられていないタグは閉じ、対応しない閉じタグは捨てる", () => {
+    assert.equal(sanitizeHtml("<p><strong>本文</p>"), "<p><strong>本文</strong></p>");
+    assert.equal(sanitizeHtml("本文</em></p>"), "本文");
+  });
+
+  it("コメント・CDATA は取り除く", () => {
+    assert.equal(sanitizeHtml("<!-- <script>alert(1)</script> -->本文<![CDATA[<script>]]>"), "本文");
+  });
+});
+
+describe("isSafeUrl", () => {
+  it("http(s)・mailto・相対URLを許可する", () => {
+    for (const url of ["https://example.com/", "http://example.com/", "mailto:a@example.com", "/docs", "docs/page", "#top", "?q=1", ""]) {
+      assert.equal(isSafeUrl(url), true, url);
+    }
+  });
+
+  it("それ以外のスキーム・プロトコル相対URLは許可しない", () => {
+    for (const url of ["javascript:alert(1)", "data:text/html,x", "file:///etc/passwd", "ftp://example.com/", "//example.com/"]) {
+      assert.equal(isSafeUrl(url), false, url);
+    }
+  });
+});
+
+describe("escapeHtml", () => {
+  it("属性値・テキストに埋め込めるようにエスケープする", () => {
+    assert.equal(escapeHtml(`<a href="x" title='y'>&</a>`), "&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;");
+  });
+});
+
+describe("GENERATED_HTML_CSP", () => {
+  const directives = new Map(
+    GENERATED_HTML_CSP.split(";").map((directive) => {
+      const [name, ...values] = directive.trim().split(/\s+/);
+      return [name, values] as const;
+    })
+  );
+
+  it("スクリプトを一切実行させない", () => {
+    assert.deepEqual(directives.get("default-src"), ["'none'"]);
+    assert.equal(directives.has("script-src"), false);
+    assert.equal(GENERATED_HTML_CSP.includes("'unsafe-eval'"), false);
+  });
+
+  it("base・フォームの送信先・埋め込み元を制限する", () => {
+    assert.deepEqual(directives.get("base-uri"), ["'self'"]);
+    assert.deepEqual(directives.get("form-action"), ["'none'"]);
+    assert.deepEqual(directives.get("frame-ancestors"), ["'self'"]);
+  });
+
+  it("埋め込みプレーヤーは YouTube（nocookie）と Vimeo だけを許可する", () => {
+    assert.deepEqual(directives.get("frame-src"), ["'self'", "https://www.youtube-nocookie.com", "https://player.vimeo.com"]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * lib/template.ts のテスト（テーマのテンプレートの展開）
+ * 実行: npm test
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { renderTemplate } from "../lib/template.js";
+
+describe("renderTemplate", () => {
+  it("{{ }} はエスケープし、{{{ }}} はそのまま埋め込む", () => {
+    assert.equal(
+      renderTemplate("<h1>{{ title }}</h1>{{{ body }}}", { title: "<T&>", body: "<p>本文</p>" }),
+      "<h1>&lt;T&amp;&gt;</h1><p>本文</p>"
+    );
+  });
+
+  it("ドット区切りで参照し、ない値は空にする", () => {
+    assert.equal(renderTemplate("{{ a.b }}/{{ a.c }}/{{ x.y }}", { a: { b: 1 } }), "1//");
+  });
+
+  it("埋め込んだ値の中の {{ }} は展開しない", () => {
+    const data = { title: "T", body: "<code>{{ title }}</code> <code>{{{ body }}}</code>", text: "{{ title }}" };
+    assert.equal(
+      renderTemplate("{{{ body }}} {{ text }}", data),
+      "<code>{{ title }}</code> <code>{{{ body }}}</code> {{ title }}"
+    );
+  });
+
+  it("条件ブロックは値の有無で出し分け、入れ子にできる", () => {
+    const template = "{{#video}}[{{#video.url}}URL{{/video.url}}{{^video.url}}ファイル{{/video.url}}]{{/video}}{{^video}}なし{{/video}}";
+    assert.equal(renderTemplate(template, { video: { url: "https://example.com/" } }), "[URL]");
+    assert.equal(renderTemplate(template, { video: { kind: "file" } }), "[ファイル]");
+    assert.equal(renderTemplate(template, { video: null }), "なし");
+    assert.equal(renderTemplate("{{#items}}あり{{/items}}{{^items}}空{{/items}}", { items: [] }), "空");
+  });
+});
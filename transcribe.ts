@@ -1,63 +1,107 @@
 #!/usr/bin/env npx tsx
 /**
- * MP4動画からMP3を抽出し、whisper.cppで文字起こしを行うスクリプト
+ * MP4動画から音声を抽出し、文字起こしを行うスクリプト
  * タイムスタンプ付きVTT形式で出力
+ * 文字起こしバックエンド: whisper.cpp（既定）/ faster-whisper / OpenAI互換API
  *
  * 必要: brew install whisper-cpp ffmpeg
  */
 
-import { spawn } from "child_process";
-import { existsSync } from "fs";
-import { basename, dirname, join } from "path";
-
-function runCommand(cmd: string, args: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn(cmd, args, { stdio: "inherit" });
-    proc.on("close", (code) => {
-      if (code === 0) resolve();
-      else reject(new Error(`${cmd} exited with code ${code}`));
-    });
-    proc.on("error", reject);
-  });
-}
+import "dotenv/config";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { parseArgs } from "util";
+import { getVideoDuration, runCommand } from "./lib/command.js";
+import { AUTO_LANGUAGE, isLanguageSetting } from "./lib/language.js";
+import { createProgressReporter, parseFfmpegProgressTime } from "./lib/progress.js";
+import { setVttLanguage } from "./lib/transcript.js";
+import {
+  createTranscriptionBackend,
+  isTranscriptionBackendName,
+  TRANSCRIPTION_BACKENDS,
+  type TranscriptionBackend,
+  type TranscriptionBackendName,
+} from "./lib/transcription-backend.js";
 
-async function extractAudio(videoPath: string, wavPath: string): Promise<void> {
+const reportProgress = createProgressReporter({ audio: 1, transcribe: 9 });
+
+// 音声を抽出し、動画の長さ（秒）を返す
+async function extractAudio(videoPath: string, wavPath: string): Promise<number> {
   console.log(`音声抽出中: ${videoPath} -> ${wavPath}`);
 
-  // whisper.cppは16kHz WAVが必要
-  await runCommand("ffmpeg", [
-    "-i", videoPath,
-    "-ar", "16000",
-    "-ac", "1",
-    "-c:a", "pcm_s16le",
-    "-y",
-    wavPath,
-  ]);
+  const duration = await getVideoDuration(videoPath);
+  reportProgress("audio", 0, "音声抽出");
 
+  // whisperは16kHz WAVが必要
+  // -progress: 処理済み時刻を標準出力に書き出す
+  await runCommand(
+    "ffmpeg",
+    [
+      "-i", videoPath,
+      "-ar", "16000",
+      "-ac", "1",
+      "-c:a", "pcm_s16le",
+      "-progress", "pipe:1",
+      "-nostats",
+      "-y",
+      wavPath,
+    ],
+    {
+      onStdoutLine: (line) => {
+        const time = parseFfmpegProgressTime(line);
+        if (time !== null && duration > 0) reportProgress("audio", time / duration, "音声抽出");
+      },
+    }
+  );
+
+  reportProgress("audio", 1, "音声抽出");
   console.log("音声抽出完了");
+  return duration;
 }
 
-async function transcribe(wavPath: string, outputBase: string): Promise<void> {
-  console.log(`文字起こし中: ${wavPath}`);
+// 文字起こしを行い、文字起こしの言語（自動判定の結果または指定した言語）を返す
+async function transcribe(
+  backend: TranscriptionBackend,
+  wavPath: string,
+  outputBase: string,
+  language: string,
+  duration: number
+): Promise<string | null> {
+  console.log(`文字起こし中: ${wavPath}（${backend.name}: ${backend.model}、言語: ${language}）`);
 
-  // whisper-cli（Homebrew版whisper-cpp）
-  // -ovtt: VTT形式（タイムスタンプ付き）
-  await runCommand("whisper-cli", [
-    "-m", "/opt/homebrew/share/whisper-cpp/models/ggml-large-v3-turbo.bin",
-    "-l", "ja",
-    "-ovtt",
-    "-of", outputBase,
+  reportProgress("transcribe", 0, "文字起こし");
+  const result = await backend.transcribe({
     wavPath,
-  ]);
+    outputBase,
+    language,
+    duration,
+    onProgress: (fraction) => reportProgress("transcribe", fraction, "文字起こし"),
+  });
 
+  reportProgress("transcribe", 1, "文字起こし");
   console.log("文字起こし完了");
+  return result.language;
 }
 
 async function main(): Promise<void> {
-  const videoPath = process.argv[2];
+  const { values, positionals } = parseArgs({
+    options: {
+      language: { type: "string", default: process.env.WHISPER_LANGUAGE || AUTO_LANGUAGE },
+      backend: { type: "string" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+    },
+    allowPositionals: true,
+  });
+  const [videoPath] = positionals;
 
   if (!videoPath) {
-    console.log("使い方: npx tsx transcribe.ts <video.mp4>");
+    console.log("使い方: npx tsx transcribe.ts <video.mp4> [オプション]");
+    console.log("\nオプション:");
+    console.log("  --language <code|auto>  文字起こしの言語（ja, en 等。既定: WHISPER_LANGUAGE または auto = 自動判定）");
+    console.log(`  --backend <${TRANSCRIPTION_BACKENDS.join("|")}>  文字起こしバックエンド（既定: TRANSCRIPTION_BACKEND または whisper-cpp）`);
+    console.log("  --model <name>          モデルサイズ（tiny〜large-v3-turbo）またはモデルファイル、openai はモデル名（既定: WHISPER_MODEL）");
+    console.log("  --base-url <url>        OpenAI互換エンドポイントのURL（openai、既定: TRANSCRIPTION_BASE_URL）");
     console.log("\n必要なツール:");
     console.log("  brew install whisper-cpp ffmpeg");
     console.log("  whisper-cpp-download-ggml-model large-v3-turbo");
@@ -69,16 +113,39 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  const language = values.language!;
+  if (!isLanguageSetting(language)) {
+    console.error(`エラー: --language には言語コード（ja, en 等）または auto を指定してください: ${language}`);
+    process.exit(1);
+  }
+
+  if (values.backend && !isTranscriptionBackendName(values.backend)) {
+    console.error(`エラー: 不明な文字起こしバックエンド: ${values.backend}`);
+    process.exit(1);
+  }
+  const backend = createTranscriptionBackend({
+    backend: values.backend as TranscriptionBackendName | undefined,
+    model: values.model,
+    baseUrl: values["base-url"],
+  });
+
   const dir = dirname(videoPath) || ".";
   // video.mp4 -> video.wav, video.vtt (同じディレクトリに出力)
   const wavPath = join(dir, "video.wav");
   const outputBase = join(dir, "video");
 
-  await extractAudio(videoPath, wavPath);
-  await transcribe(wavPath, outputBase);
+  const duration = await extractAudio(videoPath, wavPath);
+  const transcriptLanguage = await transcribe(backend, wavPath, outputBase, language, duration);
+
+  // 判定した言語をVTTのヘッダーに記録（記事の言語の既定値になる）
+  const vttPath = `${outputBase}.vtt`;
+  if (transcriptLanguage && existsSync(vttPath)) {
+    writeFileSync(vttPath, setVttLanguage(readFileSync(vttPath, "utf-8"), transcriptLanguage));
+  }
 
   console.log(`\n完了！`);
-  console.log(`文字起こし: ${outputBase}.vtt`);
+  console.log(`文字起こし: ${vttPath}`);
+  console.log(`言語: ${transcriptLanguage ?? "不明"}`);
 }
 
 main().catch((err) => {
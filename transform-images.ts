@@ -1,63 +1,46 @@
 #!/usr/bin/env npx tsx
 /**
- * 選出画像をGemini画像生成でコンテンツに合った画像に変換
+ * 選出画像を画像バックエンド（Gemini / OpenAI / ローカル補正）でコンテンツに合った画像に変換
  */
 
 import "dotenv/config";
-import { GoogleGenAI } from "@google/genai";
-import { readFileSync, writeFileSync, readdirSync, mkdirSync } from "fs";
+import { readdirSync, mkdirSync } from "fs";
 import { join, basename } from "path";
+import { parseArgs } from "util";
+import {
+  createImageBackend,
+  transformWithFallback,
+  isImageBackendName,
+  IMAGE_BACKENDS,
+  type ImageBackendName,
+} from "./lib/image-backend.js";
 
-const ai = new GoogleGenAI({});
-
-async function transformImage(
-  imagePath: string,
-  prompt: string,
-  outputPath: string
-): Promise<void> {
-  const imageData = readFileSync(imagePath);
-  const base64Image = imageData.toString("base64");
-
-  const contents = [
-    { text: prompt },
-    {
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: base64Image,
-      },
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      backend: { type: "string" },
+      model: { type: "string" },
     },
-  ];
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-image",
-    contents,
+    allowPositionals: true,
   });
-
-  for (const part of response.candidates![0].content!.parts!) {
-    if (part.inlineData) {
-      const buffer = Buffer.from(part.inlineData.data!, "base64");
-      writeFileSync(outputPath, buffer);
-      return;
-    }
-  }
-
-  throw new Error("画像が生成されませんでした");
-}
-
-async function main(): Promise<void> {
-  const selectedDir = process.argv[2];
-  const style = process.argv[3] || "blog";
+  const selectedDir = positionals[0];
+  const style = positionals[1] || "blog";
 
   if (!selectedDir) {
-    console.log("使い方: npx tsx transform-images.ts <selected_dir> [style]");
+    console.log("使い方: npx tsx transform-images.ts <selected_dir> [style] [--backend <name>] [--model <name>]");
     console.log("style: blog, lp, tutorial");
+    console.log(`backend: ${IMAGE_BACKENDS.join(", ")}（既定: IMAGE_BACKEND）`);
     process.exit(1);
   }
 
-  if (!process.env.GEMINI_API_KEY) {
-    console.error("エラー: GEMINI_API_KEY環境変数を設定してください");
+  if (values.backend && !isImageBackendName(values.backend)) {
+    console.error(`エラー: 不明な画像バックエンド: ${values.backend}`);
     process.exit(1);
   }
+  const backend = createImageBackend({
+    backend: values.backend as ImageBackendName | undefined,
+    model: values.model,
+  });
 
   const stylePrompts: Record<string, string> = {
     blog: "この画像をブログ記事用のクリーンでプロフェッショナルな見た目に変換してください。明るく読みやすい雰囲気で。",
@@ -77,7 +60,7 @@ async function main(): Promise<void> {
   const outputDir = selectedDir.replace(/_selected$/, "_transformed");
   mkdirSync(outputDir, { recursive: true });
 
-  console.log(`画像変換中 (style: ${style})`);
+  console.log(`画像変換中 (style: ${style}, backend: ${backend.name})`);
   console.log(`入力: ${selectedDir}`);
   console.log(`出力: ${outputDir}`);
 
@@ -88,8 +71,8 @@ async function main(): Promise<void> {
     console.log(`\n[${i + 1}/${images.length}] ${basename(inputPath)}`);
 
     try {
-      await transformImage(inputPath, prompt, outputPath);
-      console.log(`  → ${basename(outputPath)}`);
+      const result = await transformWithFallback(backend, inputPath, prompt, outputPath);
+      console.log(`  → ${basename(outputPath)} (${result.backend})`);
     } catch (err) {
       console.error(`  エラー: ${(err as Error).message}`);
     }